@@ -1,9 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Header } from './components/Header';
 import { InputArea } from './components/InputArea';
+import { ErrorBanner } from './components/ErrorBanner';
+import { OfflineIndicator, QueueStatus } from './components/OfflineIndicator';
+import { UpdatePrompt } from './components/UpdatePrompt';
 import { AnalysisResult } from './components/AnalysisResult';
 import { RewriteResult } from './components/RewriteResult';
 import { Profile } from './components/Profile';
+import { Review } from './components/Review';
+import { Vocabulary } from './components/Vocabulary';
 import { SettingsPage } from './components/SettingsModal';
 import { DictionaryModal } from './components/DictionaryModal';
 import { BottomNav } from './components/BottomNav';
@@ -16,16 +21,52 @@ import {
   RewriteStyle,
   RewriteAnalysis,
   QuickRewriteState,
-  DictionaryEntry
+  DictionaryEntry,
+  VocabularyEntry,
+  HistoryEntry,
+  CorrectionDecision,
+  CorrectionDecisions,
+  TargetLanguage,
+  AppLanguage,
+  LanguageSettings
 } from './types';
-import { checkGrammar, rewriteText } from './services/geminiService';
+import { checkGrammar, checkDocument, rewriteText } from './services/geminiService';
+import { previewGrammarAnalysis, previewRewriteAnalysis } from './services/streaming';
+import { AppError, toAppError } from './services/errors';
+import { MAX_QUEUE_RETRIES, clearPendingChecks, enqueueCheck, getPendingChecks, notifyQueueFinished, queueRetryDelay, requestQueueNotifications, runPendingChecks } from './services/offlineQueue';
+import { registerServiceWorker } from './services/serviceWorker';
+import { DOCUMENT_MAX_LENGTH, SENTENCE_MAX_LENGTH } from './services/documentChunker';
+import { clearShareParams, readSharedText } from './services/share';
+import { Route, canGoBack, getCurrentRoute, pushRoute, replaceRoute } from './services/router';
 import { 
   saveHistory, 
+  updateHistoryDecisions,
+  addReviewCards,
   saveRewriteHistory,
   saveDictionaryHistory,
   saveAppState 
 } from './services/storageService';
-import { t } from './services/translations';
+import { I18nContext, createI18n, detectUiLanguage, isUiLanguage } from './services/i18n';
+import { findSourceSentence } from './services/vocabulary';
+import { acceptAllBySeverity, buildWorkingText, summarizeDecisions } from './services/corrections';
+import { DEFAULT_TARGET_LANGUAGE, LANGUAGES, isNativeLanguage, isTargetLanguage } from './services/languages';
+
+const QUICK_REWRITE_STYLES: RewriteStyle[] = [
+  'Professional', 'Casual', 'Academic', 'Creative', 
+  'Formal', 'Informal', 'Analytical', 'Narrative', 
+  'Persuasive', 'Descriptive'
+];
+
+// Shuffle and pick 4
+const pickQuickRewriteStyles = (): RewriteStyle[] =>
+  [...QUICK_REWRITE_STYLES].sort(() => 0.5 - Math.random()).slice(0, 4);
+
+// A definition already on screen once, kept so returning to its URL shows it again
+interface LoadedDefinition {
+  language: TargetLanguage;
+  data: DictionaryEntry[];
+  sourceSentence?: string;
+}
 
 const App: React.FC = () => {
   // --- State Initialization ---
@@ -47,10 +88,71 @@ const App: React.FC = () => {
     return 'blue';
   });
 
+  const [uiLanguage, setUiLanguage] = useState<AppLanguage>(() => {
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('grammarguard_ui_language');
+      return isUiLanguage(saved) ? saved : detectUiLanguage();
+    }
+    return 'en';
+  });
+
+  const i18n = useMemo(() => createI18n(uiLanguage), [uiLanguage]);
+  const { t } = i18n;
+
+  const [isDocumentMode, setIsDocumentMode] = useState<boolean>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('grammarguard_document_mode') === 'true';
+    }
+    return false;
+  });
+
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>(() => {
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('grammarguard_target_language');
+      return isTargetLanguage(saved) ? saved : DEFAULT_TARGET_LANGUAGE;
+    }
+    return DEFAULT_TARGET_LANGUAGE;
+  });
+
+  const [explanationLanguage, setExplanationLanguage] = useState<AppLanguage>(() => {
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('grammarguard_explanation_language');
+      return isNativeLanguage(saved) ? saved : 'en';
+    }
+    return 'en';
+  });
+
+  const [showEnglishExplanations, setShowEnglishExplanations] = useState<boolean>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('grammarguard_show_english') === 'true';
+    }
+    return false;
+  });
+
+  const languageSettings: LanguageSettings = {
+    target: targetLanguage,
+    explanation: explanationLanguage,
+    showEnglish: showEnglishExplanations
+  };
+
   // Content State - Reset on refresh as requested
   const [inputText, setInputText] = useState('');
+  // Text over the sentence limit (kept when leaving document mode, or arriving from outside
+  // the input box) is always checked in chunks, never sent as one oversized request
+  const checksAsDocument = isDocumentMode || inputText.length > SENTENCE_MAX_LENGTH;
   const [grammarResult, setGrammarResult] = useState<GrammarAnalysis | null>(null);
   const [rewriteResult, setRewriteResult] = useState<RewriteAnalysis | null>(null);
+  // Partial results shown while a response streams in, replaced by the final one
+  const [streamingGrammar, setStreamingGrammar] = useState<GrammarAnalysis | null>(null);
+  const [streamingRewrite, setStreamingRewrite] = useState<RewriteAnalysis | null>(null);
+  // When the shown result came from the response cache, and when it was generated
+  const [resultCachedAt, setResultCachedAt] = useState<number | null>(null);
+  // Why the last check or rewrite failed, and how to send it again
+  const [requestError, setRequestError] = useState<{ error: AppError; retry: () => void } | null>(null);
+
+  // Accept / reject decisions for the current analysis and the history entry they belong to
+  const [decisions, setDecisions] = useState<CorrectionDecisions>({});
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
   
   // Quick Rewrite State (Persisted in App)
   const [quickRewriteState, setQuickRewriteState] = useState<QuickRewriteState>({
@@ -62,18 +164,71 @@ const App: React.FC = () => {
 
   // UI State
   const [loadingState, setLoadingState] = useState<LoadingState>(LoadingState.IDLE);
-  const [currentView, setCurrentView] = useState<ViewMode>('checker');
+  // Mirrors the URL (see services/router): change it with showView so history stays in step
+  const [currentView, setCurrentView] = useState<ViewMode>(() => {
+    const route = getCurrentRoute();
+    return route.type === 'view' ? route.view : 'checker';
+  });
   const [historyUpdateTrigger, setHistoryUpdateTrigger] = useState(0);
+  const [documentProgress, setDocumentProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  // Offline State
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [pendingCheckCount, setPendingCheckCount] = useState(0);
+  const [finishedQueuedCount, setFinishedQueuedCount] = useState(0);
+  const [droppedQueuedCount, setDroppedQueuedCount] = useState(0);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus>('idle');
+  const isRunningQueueRef = useRef(false);
+  const queueRetryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const queueRetryCountRef = useRef(0); // Runs in a row that left checks queued while online
+
+  // Set once a new release is installed and waiting to take over
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
 
   // Dictionary State
   const [isDictionaryOpen, setIsDictionaryOpen] = useState(false);
   const [dictionaryTerm, setDictionaryTerm] = useState('');
   const [dictionaryData, setDictionaryData] = useState<DictionaryEntry[] | null>(null);
   const [dictionaryLoading, setDictionaryLoading] = useState(false);
-  const [dictionaryError, setDictionaryError] = useState<string | null>(null);
+  const [dictionaryNotFound, setDictionaryNotFound] = useState(false);
+  const [dictionarySourceSentence, setDictionarySourceSentence] = useState<string | undefined>(undefined);
+  // Saved words open in the language they were saved in, whatever the current target language
+  const [dictionaryLanguage, setDictionaryLanguage] = useState<TargetLanguage>(targetLanguage);
 
-  // Request cancellation tracking
+  // Request cancellation tracking. The id keeps late results out of the UI; the controllers
+  // abort the network calls themselves, along with any retry waiting to happen.
   const activeRequestIdRef = useRef<number>(0);
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const quickRewriteControllerRef = useRef<AbortController | null>(null);
+  const dictionaryControllerRef = useRef<AbortController | null>(null);
+  // Keyed by definitionKey, so going back or forward to a definition doesn't look it up again
+  const loadedDefinitionsRef = useRef(new Map<string, LoadedDefinition>());
+
+  const cancelActiveRequest = () => {
+    activeRequestIdRef.current = 0; // Invalidate any pending request
+    requestControllerRef.current?.abort();
+    requestControllerRef.current = null;
+  };
+
+  const cancelQuickRewrite = () => {
+    quickRewriteControllerRef.current?.abort();
+    quickRewriteControllerRef.current = null;
+  };
+
+  // Aborts whatever check or rewrite is still running and returns the signal for a new one
+  const startRequest = (): AbortSignal => {
+    cancelActiveRequest();
+    cancelQuickRewrite();
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  // Set when text arrives from outside the app, so it is checked as soon as it is in the input
+  const shouldAutoCheckRef = useRef(false);
+
+  // Latest applyRoute, for the popstate listener registered once on mount
+  const applyRouteRef = useRef<(route: Route) => void>(() => {});
 
   // Swipe Navigation Logic
   const touchStartX = useRef<number | null>(null);
@@ -149,6 +304,28 @@ const App: React.FC = () => {
     localStorage.setItem('grammarguard_color_scheme', colorScheme);
   }, [colorScheme]);
 
+  // Interface Language Persistence
+  useEffect(() => {
+    document.documentElement.lang = uiLanguage;
+    localStorage.setItem('grammarguard_ui_language', uiLanguage);
+  }, [uiLanguage]);
+
+  // Document Mode Persistence
+  useEffect(() => {
+    localStorage.setItem('grammarguard_document_mode', String(isDocumentMode));
+  }, [isDocumentMode]);
+
+  // Target Language Persistence
+  useEffect(() => {
+    localStorage.setItem('grammarguard_target_language', targetLanguage);
+  }, [targetLanguage]);
+
+  // Explanation Language Persistence
+  useEffect(() => {
+    localStorage.setItem('grammarguard_explanation_language', explanationLanguage);
+    localStorage.setItem('grammarguard_show_english', String(showEnglishExplanations));
+  }, [explanationLanguage, showEnglishExplanations]);
+
   // State Persistence (Debounced)
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -162,149 +339,417 @@ const App: React.FC = () => {
     return () => clearTimeout(timer);
   }, [inputText, grammarResult, rewriteResult, colorScheme]);
 
+  // Connection Status
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Service worker, with a prompt when a new release is ready
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  // Routing: the URL on load, then back/forward and hand-edited URLs
+  useEffect(() => {
+    const route = getCurrentRoute();
+    if (route.type === 'view') replaceRoute(route); // Also normalises an empty or unknown hash
+    applyRouteRef.current(route);
+
+    const handlePopState = () => applyRouteRef.current(getCurrentRoute());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Text shared from another app (the app is a share target when installed)
+  useEffect(() => {
+    const shared = readSharedText();
+    if (!shared) return;
+    clearShareParams();
+    shouldAutoCheckRef.current = true;
+    setCurrentView('checker');
+    loadExternalText(shared);
+  }, []);
+
+  useEffect(() => {
+    if (!shouldAutoCheckRef.current || !inputText.trim()) return;
+    shouldAutoCheckRef.current = false;
+    handleCheckGrammar();
+  }, [inputText]);
+
+  // Run checks queued while offline, on startup and whenever the connection comes back
+  useEffect(() => {
+    if (isOnline) {
+      queueRetryCountRef.current = 0;
+      runOfflineQueue();
+    } else {
+      getPendingChecks().then(pending => setPendingCheckCount(pending.length));
+    }
+  }, [isOnline]);
+
+  useEffect(() => {
+    return () => {
+      if (queueRetryTimerRef.current) clearTimeout(queueRetryTimerRef.current);
+    };
+  }, []);
+
 
   // --- Handlers ---
 
-  const handleCheckGrammar = async () => {
+  // Text from outside the input box (a share, a link) gets the limits typing has: cut to the
+  // document limit, and in document mode whenever it is longer than a sentence
+  const loadExternalText = (text: string) => {
+    const fitted = text.slice(0, DOCUMENT_MAX_LENGTH);
+    if (fitted.length > SENTENCE_MAX_LENGTH) setIsDocumentMode(true);
+    setInputText(fitted);
+  };
+
+  const showView = (view: ViewMode) => {
+    pushRoute({ type: 'view', view });
+    setCurrentView(view);
+  };
+
+  // Brings the UI in line with a route that came from the URL rather than from a click
+  const applyRoute = (route: Route) => {
+    if (route.type === 'dictionary') {
+      const loaded = loadedDefinitionsRef.current.get(definitionKey(route.term));
+      if (loaded) {
+        showDefinition(route.term, loaded);
+      } else {
+        handleDictionarySearch(route.term, { fromRoute: true });
+      }
+      return;
+    }
+
+    if (isDictionaryOpen) closeDictionary();
+
+    if (route.type === 'check') {
+      handlePrefillCheck(route.text);
+    } else {
+      setCurrentView(route.view);
+    }
+  };
+  applyRouteRef.current = applyRoute;
+
+  // One dictionary entry in history at a time: looking up another word replaces it
+  const routeToDictionary = (term: string) => {
+    const route: Route = { type: 'dictionary', term };
+    if (getCurrentRoute().type === 'dictionary') {
+      replaceRoute(route);
+    } else {
+      pushRoute(route);
+    }
+  };
+
+  const clearQueueRetry = () => {
+    if (queueRetryTimerRef.current) clearTimeout(queueRetryTimerRef.current);
+    queueRetryTimerRef.current = null;
+  };
+
+  // Checks left queued while online (rate limits, an overloaded service) are retried with
+  // growing gaps; after too many runs without progress the queue waits for the user instead
+  const scheduleQueueRetry = (retryAfterMs?: number) => {
+    clearQueueRetry();
+    if (!navigator.onLine) {
+      setQueueStatus('idle'); // Coming back online runs the queue again
+      return;
+    }
+    if (queueRetryCountRef.current >= MAX_QUEUE_RETRIES) {
+      setQueueStatus('stalled');
+      return;
+    }
+    const delay = queueRetryDelay(queueRetryCountRef.current, retryAfterMs);
+    queueRetryCountRef.current++;
+    setQueueStatus('waiting');
+    queueRetryTimerRef.current = setTimeout(runOfflineQueue, delay);
+  };
+
+  const runOfflineQueue = async () => {
+    if (isRunningQueueRef.current) return;
+    isRunningQueueRef.current = true;
+    clearQueueRetry();
+    try {
+      const pending = await getPendingChecks();
+      setPendingCheckCount(pending.length);
+      if (pending.length === 0) {
+        setQueueStatus('idle');
+        return;
+      }
+
+      setQueueStatus('running');
+      const result = await runPendingChecks();
+      setPendingCheckCount(result.remaining);
+      if (result.failed > 0) setDroppedQueuedCount(prev => prev + result.failed);
+
+      if (result.remaining > 0) {
+        // Any finished check counts as progress and restarts the backoff
+        if (result.completed.length > 0) queueRetryCountRef.current = 0;
+        scheduleQueueRetry(result.retryAfterMs);
+      } else {
+        queueRetryCountRef.current = 0;
+        setQueueStatus('idle');
+      }
+
+      if (result.completed.length === 0) return;
+
+      setFinishedQueuedCount(prev => prev + result.completed.length);
+      setHistoryUpdateTrigger(prev => prev + 1);
+      notifyQueueFinished(t.offline.notificationTitle, t.offline.notificationBody.replace('{count}', String(result.completed.length)));
+    } finally {
+      isRunningQueueRef.current = false;
+    }
+  };
+
+  const handleRetryQueue = () => {
+    queueRetryCountRef.current = 0;
+    runOfflineQueue();
+  };
+
+  const handleDiscardQueue = async () => {
+    clearQueueRetry();
+    await clearPendingChecks();
+    queueRetryCountRef.current = 0;
+    setPendingCheckCount(0);
+    setQueueStatus('idle');
+  };
+
+  // Keeps a check that failed for lack of a connection, to run once there is one
+  const queueOfflineCheck = async (): Promise<boolean> => {
+    const queued = await enqueueCheck(inputText, languageSettings, checksAsDocument);
+    if (!queued) return false;
+
+    const pending = await getPendingChecks();
+    setPendingCheckCount(pending.length);
+    requestQueueNotifications();
+    return true;
+  };
+
+  const handleCheckGrammar = async (forceRefresh = false) => {
     if (!inputText.trim()) return;
 
+    const signal = startRequest();
+
     // Generate unique ID for this request
     const requestId = Date.now();
     activeRequestIdRef.current = requestId;
 
     setLoadingState(LoadingState.LOADING);
+    setRequestError(null);
     setGrammarResult(null); // Clear previous results while loading
+    setResultCachedAt(null);
+    setStreamingGrammar(null);
+    setStreamingRewrite(null);
+    setDecisions({});
+    setActiveHistoryId(null);
     setRewriteResult(null); 
     setQuickRewriteState({ styles: [], selectedStyle: null, result: null, isLoading: false }); // Reset quick rewrite
+    setDocumentProgress(null);
+
+    const options = {
+      signal,
+      forceRefresh,
+      onCacheHit: (cachedAt: number) => {
+        if (activeRequestIdRef.current === requestId) setResultCachedAt(cachedAt);
+      }
+    };
 
     try {
-      const result = await checkGrammar(inputText);
+      const result = checksAsDocument
+        ? await checkDocument(inputText, languageSettings, (completed, total) => {
+            if (activeRequestIdRef.current === requestId) {
+              setDocumentProgress({ completed, total });
+            }
+          }, options)
+        : await checkGrammar(inputText, languageSettings, preview => {
+            if (activeRequestIdRef.current === requestId) {
+              setStreamingGrammar(previewGrammarAnalysis(preview));
+            }
+          }, options);
 
       // Check if this request is still active
       if (activeRequestIdRef.current !== requestId) return;
 
+      setDocumentProgress(null);
+      setStreamingGrammar(null);
+
       setGrammarResult(result);
       setLoadingState(LoadingState.SUCCESS);
       
       // Save to history
-      saveHistory(inputText, result);
+      const historyId = await saveHistory(inputText, result);
+      await addReviewCards(inputText, result);
+      if (activeRequestIdRef.current === requestId) {
+        setActiveHistoryId(historyId);
+      }
       setHistoryUpdateTrigger(prev => prev + 1);
 
-      // Initialize Random Quick Rewrite Styles
-      const allStyles: RewriteStyle[] = [
-        'Professional', 'Casual', 'Academic', 'Creative', 
-        'Formal', 'Informal', 'Analytical', 'Narrative', 
-        'Persuasive', 'Descriptive'
-      ];
-      // Shuffle and pick 4
-      const shuffled = [...allStyles].sort(() => 0.5 - Math.random());
-      
       // Double check active request before updating secondary state
       if (activeRequestIdRef.current !== requestId) return;
 
+      // Initialize Random Quick Rewrite Styles
       setQuickRewriteState(prev => ({
           ...prev,
-          styles: shuffled.slice(0, 4),
+          styles: pickQuickRewriteStyles(),
           selectedStyle: null,
           result: null,
           isLoading: false
       }));
 
-    } catch (error: any) {
+    } catch (caught) {
       if (activeRequestIdRef.current !== requestId) return;
+      const error = toAppError(caught);
+      setDocumentProgress(null);
+      setStreamingGrammar(null);
+
+      if (error.kind === 'offline' && await queueOfflineCheck()) {
+        setLoadingState(LoadingState.IDLE);
+        return;
+      }
+
       console.error(error);
       setLoadingState(LoadingState.ERROR);
-      
-      const msg = error?.message || error?.toString() || '';
-      if (msg.includes("PERMISSION_DENIED")) {
-        alert(t.errors.permissionDenied);
-        setCurrentView('settings');
-      } else {
-        alert(t.errors.generic);
-      }
+      setRequestError({ error, retry: () => handleCheckGrammar(forceRefresh) });
     }
   };
 
-  const handleRewrite = async (style: RewriteStyle) => {
+  const handleRewrite = async (style: RewriteStyle, forceRefresh = false) => {
     if (!inputText.trim()) return;
 
+    const signal = startRequest();
+
     // Generate unique ID for this request
     const requestId = Date.now();
     activeRequestIdRef.current = requestId;
 
     setLoadingState(LoadingState.LOADING);
+    setRequestError(null);
     setRewriteResult(null);
     setGrammarResult(null); // Clear grammar result
+    setResultCachedAt(null);
+    setStreamingGrammar(null);
+    setStreamingRewrite(null);
     setQuickRewriteState({ styles: [], selectedStyle: null, result: null, isLoading: false });
 
     try {
-      const result = await rewriteText(inputText, style);
+      const result = await rewriteText(inputText, style, languageSettings, preview => {
+        if (activeRequestIdRef.current === requestId) {
+          setStreamingRewrite(previewRewriteAnalysis(inputText, style, preview));
+        }
+      }, {
+        signal,
+        forceRefresh,
+        onCacheHit: cachedAt => {
+          if (activeRequestIdRef.current === requestId) setResultCachedAt(cachedAt);
+        }
+      });
 
       if (activeRequestIdRef.current !== requestId) return;
 
+      setStreamingRewrite(null);
       setRewriteResult(result);
       setLoadingState(LoadingState.SUCCESS);
       
       // Save rewrite to history
-      saveRewriteHistory(inputText, result);
+      await saveRewriteHistory(inputText, result);
       setHistoryUpdateTrigger(prev => prev + 1);
-    } catch (error: any) {
+    } catch (error) {
       if (activeRequestIdRef.current !== requestId) return;
       console.error(error);
       setLoadingState(LoadingState.ERROR);
-
-      const msg = error?.message || error?.toString() || '';
-      if (msg.includes("PERMISSION_DENIED")) {
-        alert(t.errors.permissionDenied);
-        setCurrentView('settings');
-      } else {
-        alert(t.errors.generic);
-      }
+      setStreamingRewrite(null);
+      setRequestError({ error: toAppError(error), retry: () => handleRewrite(style, forceRefresh) });
     }
   };
 
   const handleQuickRewrite = async (style: RewriteStyle) => {
     if (!grammarResult) return;
     
-    // Quick rewrites are synchronous UI-wise (don't block main stop button usually)
-    // but good to track if we wanted to support cancelling them too.
+    // Quick rewrites don't block the main stop button; they have their own controller
+    cancelQuickRewrite();
+    const controller = new AbortController();
+    quickRewriteControllerRef.current = controller;
     setQuickRewriteState(prev => ({ ...prev, selectedStyle: style, isLoading: true }));
+    setRequestError(null);
 
     try {
-        const result = await rewriteText(grammarResult.correctedSentence, style);
+        const result = await rewriteText(grammarResult.correctedSentence, style, languageSettings, undefined, { signal: controller.signal });
         setQuickRewriteState(prev => ({ 
             ...prev, 
             result: result.rewrittenText, 
             isLoading: false 
         }));
-    } catch (error: any) {
+    } catch (caught) {
+        const error = toAppError(caught);
+        if (error.kind === 'cancelled') return; // Stopped on purpose; state was already reset
         console.error(error);
         setQuickRewriteState(prev => ({ ...prev, isLoading: false }));
-        
-        const msg = error?.message || error?.toString() || '';
-        if (msg.includes("PERMISSION_DENIED")) {
-            alert(t.errors.permissionDenied);
-            setCurrentView('settings');
-        }
+        setRequestError({ error, retry: () => handleQuickRewrite(style) });
     }
   };
 
+  const applyDecisions = (next: CorrectionDecisions) => {
+    setDecisions(next);
+    if (!grammarResult || !activeHistoryId) return;
+
+    const { accepted, rejected } = summarizeDecisions(grammarResult.segments, next);
+    updateHistoryDecisions(activeHistoryId, {
+      acceptedCount: accepted,
+      rejectedCount: rejected,
+      finalText: buildWorkingText(grammarResult.segments, next),
+      decisions: next
+    })
+      .then(() => setHistoryUpdateTrigger(prev => prev + 1))
+      .catch(error => console.error("Failed to save correction decisions:", error));
+  };
+
+  const handleDecisionChange = (index: number, decision: CorrectionDecision | null) => {
+    const next = { ...decisions };
+    if (decision) {
+      next[index] = decision;
+    } else {
+      delete next[index];
+    }
+    applyDecisions(next);
+  };
+
+  const handleAcceptAll = (severity: 'critical' | 'suggestion') => {
+    if (!grammarResult) return;
+    applyDecisions(acceptAllBySeverity(grammarResult.segments, decisions, severity));
+  };
+
   const handleStopQuickRewrite = () => {
+    cancelQuickRewrite();
     setQuickRewriteState(prev => ({ ...prev, isLoading: false }));
   };
 
   const handleClear = () => {
-    activeRequestIdRef.current = 0; // Invalidate any pending request
+    cancelActiveRequest();
+    cancelQuickRewrite();
     setInputText('');
     setGrammarResult(null);
+    setResultCachedAt(null);
+    setStreamingGrammar(null);
+    setStreamingRewrite(null);
+    setDecisions({});
+    setActiveHistoryId(null);
     setRewriteResult(null);
     setQuickRewriteState({ styles: [], selectedStyle: null, result: null, isLoading: false });
+    setRequestError(null);
     setLoadingState(LoadingState.IDLE);
   };
 
   const handleStop = () => {
-    activeRequestIdRef.current = 0; // Invalidate any pending request
+    cancelActiveRequest();
     setLoadingState(LoadingState.IDLE);
+    setDocumentProgress(null);
+    setStreamingGrammar(null);
+    setStreamingRewrite(null);
   };
 
   const handleRetryRewrite = () => {
@@ -313,32 +758,140 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDictionarySearch = async (term: string) => {
+  // Asks the model again for a result that was served from the cache
+  const handleRefreshResult = () => {
+    if (rewriteResult) {
+      handleRewrite(rewriteResult.style, true);
+    } else {
+      handleCheckGrammar(true);
+    }
+  };
+
+  const definitionKey = (term: string, language: TargetLanguage = targetLanguage) => `${language}:${term.trim().toLowerCase()}`;
+
+  const showDefinition = (term: string, loaded: LoadedDefinition) => {
+    dictionaryControllerRef.current?.abort();
+    setDictionaryTerm(term);
+    setDictionaryLanguage(loaded.language);
+    setDictionaryData(loaded.data);
+    setDictionarySourceSentence(loaded.sourceSentence);
+    setDictionaryNotFound(false);
+    setDictionaryLoading(false);
+    setIsDictionaryOpen(true);
+  };
+
+  // Lookups that come from the URL (a link, back/forward) aren't added to the search history:
+  // the user didn't search again
+  const handleDictionarySearch = async (term: string, { fromRoute = false }: { fromRoute?: boolean } = {}) => {
     if (!term.trim()) return;
+    const sourceSentence = findSourceSentence(inputText, term);
     setDictionaryTerm(term);
+    setDictionaryLanguage(targetLanguage);
     setIsDictionaryOpen(true);
+    routeToDictionary(term);
     setDictionaryLoading(true);
-    setDictionaryError(null);
+    setDictionaryNotFound(false);
     setDictionaryData(null);
+    setDictionarySourceSentence(sourceSentence);
+
+    // A newer lookup replaces one still in flight
+    dictionaryControllerRef.current?.abort();
+    const controller = new AbortController();
+    dictionaryControllerRef.current = controller;
 
     try {
-        const response = await fetch(`https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(term)}`);
+        const dictionaryCode = LANGUAGES[targetLanguage].dictionaryCode;
+        const response = await fetch(`https://api.dictionaryapi.dev/api/v2/entries/${dictionaryCode}/${encodeURIComponent(term)}`, {
+            signal: controller.signal
+        });
         if (!response.ok) {
             throw new Error('Word not found');
         }
         const data = await response.json();
         setDictionaryData(data);
-        
+        loadedDefinitionsRef.current.set(definitionKey(term), { language: targetLanguage, data, sourceSentence });
+
+        if (fromRoute) return;
         // Save to history
-        saveDictionaryHistory(term);
+        await saveDictionaryHistory(term);
         setHistoryUpdateTrigger(prev => prev + 1);
     } catch (err) {
-        setDictionaryError("Could not find definition.");
+        if (controller.signal.aborted) return;
+        setDictionaryNotFound(true);
     } finally {
-        setDictionaryLoading(false);
+        // An aborted lookup leaves the loading state to whichever lookup replaced it
+        if (!controller.signal.aborted) {
+            setDictionaryLoading(false);
+        }
+    }
+  };
+
+  const closeDictionary = () => {
+    dictionaryControllerRef.current?.abort();
+    dictionaryControllerRef.current = null;
+    setDictionaryLoading(false);
+    setIsDictionaryOpen(false);
+  };
+
+  // Steps back over the dictionary's history entry, unless the app was opened on it from a link
+  const handleCloseDictionary = () => {
+    closeDictionary();
+    if (getCurrentRoute().type !== 'dictionary') return;
+    if (canGoBack()) {
+      window.history.back();
+    } else {
+      replaceRoute({ type: 'view', view: currentView });
     }
   };
 
+  // Saved words open from the notebook without hitting the dictionary API
+  const handleOpenSavedWord = (entry: VocabularyEntry) => {
+    const loaded = { language: entry.language, data: entry.entries, sourceSentence: entry.sourceSentence };
+    loadedDefinitionsRef.current.set(definitionKey(entry.word, entry.language), loaded);
+    showDefinition(entry.word, loaded);
+    routeToDictionary(entry.word);
+  };
+
+  // Reopens a past check or rewrite from its stored results, without another API call
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    if (!entry.analysis && !entry.rewriteAnalysis) return;
+
+    cancelActiveRequest();
+    cancelQuickRewrite();
+    setInputText(entry.originalText ?? entry.rewriteAnalysis?.originalText ?? entry.fullText ?? '');
+    setDocumentProgress(null);
+    setStreamingGrammar(null);
+    setStreamingRewrite(null);
+    setResultCachedAt(null);
+
+    if (entry.analysis) {
+      setGrammarResult(entry.analysis);
+      setRewriteResult(null);
+      setDecisions(entry.decisions || {});
+      setActiveHistoryId(entry.id);
+      setQuickRewriteState({ styles: pickQuickRewriteStyles(), selectedStyle: null, result: null, isLoading: false });
+    } else if (entry.rewriteAnalysis) {
+      setRewriteResult(entry.rewriteAnalysis);
+      setGrammarResult(null);
+      setDecisions({});
+      setActiveHistoryId(null);
+      setQuickRewriteState({ styles: [], selectedStyle: null, result: null, isLoading: false });
+    }
+
+    setLoadingState(LoadingState.SUCCESS);
+    showView('checker');
+  };
+
+  // Text from a #/check link goes into a fresh checker, ready to check but not sent until the
+  // user asks, so following a link never spends their quota. The route is then dropped so a
+  // reload doesn't overwrite what they've typed since.
+  const handlePrefillCheck = (text: string) => {
+    handleClear();
+    loadExternalText(text);
+    setCurrentView('checker');
+    replaceRoute({ type: 'view', view: 'checker' });
+  };
+
   // --- Swipe Handlers ---
 
   const onTouchStart = (e: React.TouchEvent) => {
@@ -366,14 +919,14 @@ const App: React.FC = () => {
             if (diffX > 0) {
                 // Swipe Left (Next)
                 if (currentView === 'checker') {
-                  setCurrentView('menu');
+                  showView('menu');
                 }
             } else {
                 // Swipe Right (Prev)
-                if (currentView === 'settings' || currentView === 'profile') {
-                    setCurrentView('menu');
+                if (currentView === 'settings' || currentView === 'profile' || currentView === 'review' || currentView === 'vocabulary') {
+                    showView('menu');
                 } else if (currentView === 'menu') {
-                  setCurrentView('checker');
+                  showView('checker');
                 }
             }
         }
@@ -381,6 +934,7 @@ const App: React.FC = () => {
   };
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div 
       className={`min-h-[calc(100vh+1px)] bg-t-bg text-t-text font-sans transition-colors duration-300 selection:bg-blue-500/20 selection:text-blue-700`}
       onTouchStart={onTouchStart}
@@ -394,6 +948,30 @@ const App: React.FC = () => {
       />
 
       <main className="max-w-4xl mx-auto px-4 sm:px-6 pt-28 pb-48">
+        <div className="mb-6 space-y-3 empty:hidden">
+          <OfflineIndicator
+            isOnline={isOnline}
+            pendingCount={pendingCheckCount}
+            queueStatus={queueStatus}
+            finishedCount={finishedQueuedCount}
+            droppedCount={droppedQueuedCount}
+            onRetry={handleRetryQueue}
+            onDiscard={handleDiscardQueue}
+            onViewHistory={() => {
+              setFinishedQueuedCount(0);
+              setDroppedQueuedCount(0);
+              showView('profile');
+            }}
+            onDismiss={() => {
+              setFinishedQueuedCount(0);
+              setDroppedQueuedCount(0);
+            }}
+          />
+          {applyUpdate && (
+            <UpdatePrompt onReload={applyUpdate} onDismiss={() => setApplyUpdate(null)} />
+          )}
+        </div>
+
         {(currentView === 'checker' || currentView === 'menu') && (
           <div className="space-y-8 animate-fade-in">
             <InputArea 
@@ -408,22 +986,47 @@ const App: React.FC = () => {
               analysis={grammarResult}
               colorScheme={colorScheme}
               hasRewriteResult={!!rewriteResult}
+              isDocumentMode={isDocumentMode}
+              onDocumentModeChange={setIsDocumentMode}
+              documentProgress={documentProgress}
+              decisions={decisions}
+              onDecisionChange={handleDecisionChange}
+              onAcceptAll={handleAcceptAll}
+              targetLanguage={targetLanguage}
+              onTargetLanguageChange={setTargetLanguage}
             />
 
+            {requestError && (
+              <ErrorBanner
+                error={requestError.error}
+                onRetry={requestError.retry}
+                onOpenSettings={() => showView('settings')}
+                onDismiss={() => setRequestError(null)}
+              />
+            )}
+
             {/* Grammar Analysis Result */}
-            {grammarResult && (
+            {(grammarResult || streamingGrammar) && (
               <AnalysisResult 
-                analysis={grammarResult} 
+                analysis={(grammarResult || streamingGrammar)!}
+                isStreaming={!grammarResult}
+                cachedAt={resultCachedAt ?? undefined}
+                onRefresh={handleRefreshResult}
                 quickRewriteState={quickRewriteState}
                 onQuickRewrite={handleQuickRewrite}
                 onStopQuickRewrite={handleStopQuickRewrite}
+                language={targetLanguage}
               />
             )}
 
             {/* Rewrite Result */}
-            {rewriteResult && (
+            {(rewriteResult || streamingRewrite) && (
               <RewriteResult 
-                analysis={rewriteResult}
+                analysis={(rewriteResult || streamingRewrite)!}
+                isStreaming={!rewriteResult}
+                cachedAt={resultCachedAt ?? undefined}
+                onRefresh={handleRefreshResult}
+                language={targetLanguage}
               />
             )}
           </div>
@@ -435,6 +1038,21 @@ const App: React.FC = () => {
             onColorSchemeChange={setColorScheme}
             onThemeChange={setCurrentTheme}
             historyUpdateTrigger={historyUpdateTrigger}
+            onOpenEntry={handleOpenHistoryEntry}
+          />
+        )}
+
+        {currentView === 'review' && (
+          <Review
+            colorScheme={colorScheme}
+            historyUpdateTrigger={historyUpdateTrigger}
+          />
+        )}
+
+        {currentView === 'vocabulary' && (
+          <Vocabulary
+            historyUpdateTrigger={historyUpdateTrigger}
+            onOpenWord={handleOpenSavedWord}
           />
         )}
 
@@ -442,26 +1060,38 @@ const App: React.FC = () => {
            <SettingsPage
               colorScheme={colorScheme}
               onColorSchemeChange={setColorScheme}
+              targetLanguage={targetLanguage}
+              onTargetLanguageChange={setTargetLanguage}
+              explanationLanguage={explanationLanguage}
+              onExplanationLanguageChange={setExplanationLanguage}
+              showEnglishExplanations={showEnglishExplanations}
+              onShowEnglishExplanationsChange={setShowEnglishExplanations}
+              uiLanguage={uiLanguage}
+              onUiLanguageChange={setUiLanguage}
            />
         )}
       </main>
 
       <BottomNav 
         currentView={currentView}
-        onViewChange={setCurrentView}
+        onViewChange={showView}
         colorScheme={colorScheme}
         isHidden={isDictionaryOpen}
       />
       
       <DictionaryModal 
         isOpen={isDictionaryOpen}
-        onClose={() => setIsDictionaryOpen(false)}
+        onClose={handleCloseDictionary}
         term={dictionaryTerm}
         data={dictionaryData}
         loading={dictionaryLoading}
-        error={dictionaryError}
+        error={dictionaryNotFound ? t.errors.dictionaryNotFound : null}
+        sourceSentence={dictionarySourceSentence}
+        onVocabularyChange={() => setHistoryUpdateTrigger(prev => prev + 1)}
+        language={dictionaryLanguage}
       />
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -1,26 +1,41 @@
 import React, { useState } from 'react';
-import { GrammarAnalysis, RewriteStyle, QuickRewriteState } from '../types';
-import { t } from '../services/translations';
+import { GrammarAnalysis, RewriteStyle, QuickRewriteState, TargetLanguage } from '../types';
+import { useI18n } from '../services/i18n';
+import { LANGUAGES } from '../services/languages';
 import { InteractiveText } from './InteractiveText';
+import { ExplanationContent } from './ExplanationContent';
+import { CachedResultNotice } from './CachedResultNotice';
+import { ShareButton } from './ShareButton';
 
 interface AnalysisResultProps {
   analysis: GrammarAnalysis;
   quickRewriteState: QuickRewriteState;
   onQuickRewrite: (style: RewriteStyle) => void;
   onStopQuickRewrite: () => void;
+  language: TargetLanguage;
+  isStreaming?: boolean; // Partial result while the response is still arriving
+  cachedAt?: number; // Set when the result was served from the response cache
+  onRefresh?: () => void;
 }
 
 export const AnalysisResult: React.FC<AnalysisResultProps> = ({ 
     analysis, 
     quickRewriteState, 
-    onQuickRewrite
+    onQuickRewrite,
+    language,
+    isStreaming = false,
+    cachedAt,
+    onRefresh
     // onStopQuickRewrite is intentionally unused in this component but passed for potential future use
 }) => {
+  const { t } = useI18n();
   const [copied, setCopied] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
 
   const results = t.results;
   const tStyles = t.styles;
+  // While streaming, the explanation card waits until its first words have arrived
+  const hasExplanation = analysis.explanation.overview.length > 0 || analysis.explanation.improvements.length > 0;
 
   const handleCopy = () => {
     navigator.clipboard.writeText(analysis.correctedSentence);
@@ -41,8 +56,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
     utterance.onend = () => setIsSpeaking(false);
     utterance.onerror = () => setIsSpeaking(false);
     
-    // Default to English
-    utterance.lang = 'en-US';
+    utterance.lang = LANGUAGES[language].speechLocale;
 
     setIsSpeaking(true);
     window.speechSynthesis.speak(utterance);
@@ -68,7 +82,11 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
                 {results.corrected}
             </h3>
             
-            <div className="flex items-center gap-2">
+            {isStreaming && (
+              <span className="w-4 h-4 m-2 border-2 border-green-500/30 border-t-green-500 rounded-full animate-spin" title={results.generating}></span>
+            )}
+
+            <div className={`flex items-center gap-2 ${isStreaming ? 'hidden' : ''}`}>
               <button 
                   onClick={handleListen}
                   className="text-xs flex items-center justify-center text-green-700 active:text-green-800 font-medium p-2 transition-all opacity-70 active:opacity-100 active:scale-95"
@@ -101,8 +119,14 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
                     </svg>
                   )}
                 </button>
+
+                <ShareButton text={analysis.correctedSentence} className="text-green-700 active:text-green-800" />
             </div>
           </div>
+
+          {cachedAt !== undefined && onRefresh && (
+            <CachedResultNotice cachedAt={cachedAt} onRefresh={onRefresh} />
+          )}
           
           <div className="p-8">
             <InteractiveText 
@@ -115,7 +139,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
       </div>
 
       {/* 2. Quick Rewrite Options (2x2 Grid) */}
-      <div className="bg-t-surface rounded-2xl border border-t-border overflow-hidden p-6 transition-all duration-300 hover:shadow-sm">
+      <div className={`bg-t-surface rounded-2xl border border-t-border overflow-hidden p-6 transition-all duration-300 hover:shadow-sm ${isStreaming ? 'hidden' : ''}`}>
         <div className="flex items-center gap-2 mb-4">
             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-primary-500">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 12c0-1.232-.046-2.453-.138-3.662a4.006 4.006 0 00-3.7-3.7 48.678 48.678 0 00-7.324 0 4.006 4.006 0 00-3.7 3.7c-.017.22-.032.441-.046.662M19.5 12l3-3m-3 3l-3-3m-12 3c0 1.232.046 2.453.138 3.662a4.006 4.006 0 003.7 3.7 48.656 48.656 0 007.324 0 4.006 4.006 0 003.7-3.7c.017-.22.032-.441.046-.662M4.5 12l3 3m-3-3l-3 3" />
@@ -178,27 +202,18 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
       </div>
 
       {/* 3. Explanation Card */}
-      <div className="bg-t-surface rounded-2xl border border-t-border overflow-hidden">
+      <div className={`bg-t-surface rounded-2xl border border-t-border overflow-hidden ${isStreaming && !hasExplanation ? 'hidden' : ''}`}>
         <div className="px-6 py-4 flex items-center gap-2 border-b border-t-border">
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 text-blue-500">
             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a.75.75 0 000 1.5h.253a.25.25 0 01.244.304l-.459 2.066A1.75 1.75 0 0010.747 15H11a.75.75 0 000-1.5h-.253a.25.25 0 01-.244-.304l.459-2.066A1.75 1.75 0 009.253 9H9z" clipRule="evenodd" />
           </svg>
           <h2 className="text-xs font-bold text-t-muted uppercase tracking-widest">{results.explanation}</h2>
         </div>
-        <div className="p-6">
-          <p className="text-t-text leading-relaxed font-medium mb-4">
-            {analysis.explanation.overview}
-          </p>
-          
-          <ul className="space-y-3">
-            {analysis.explanation.improvements.map((item, index) => (
-              <li key={index} className="flex items-start gap-3 text-sm text-t-muted leading-relaxed">
-                <span className="flex-shrink-0 w-1.5 h-1.5 mt-2 rounded-full bg-blue-400"></span>
-                <span>{item}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
+        <ExplanationContent
+          explanation={analysis.explanation}
+          explanationEnglish={analysis.explanationEnglish}
+          bulletClassName="bg-blue-400"
+        />
       </div>
 
     </div>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { ViewMode, AppColor } from '../types';
+import { useI18n } from '../services/i18n';
 
 interface BottomNavProps {
   currentView: ViewMode;
@@ -14,6 +15,7 @@ export const BottomNav: React.FC<BottomNavProps> = ({
   colorScheme,
   isHidden = false
 }) => {
+  const { t } = useI18n();
   
   const colorStyles: Record<AppColor, string> = {
     blue: 'text-blue-600',
@@ -26,16 +28,22 @@ export const BottomNav: React.FC<BottomNavProps> = ({
 
   const activeColor = colorStyles[colorScheme];
   
-  // Stats and Settings tabs are visible if we are in profile, settings, or menu view
-  const isExpanded = ['profile', 'settings', 'menu'].includes(currentView);
+  // Stats, Review, Vocabulary and Settings tabs are visible if we are in one of those views or the menu
+  const isExpanded = ['profile', 'review', 'vocabulary', 'settings', 'menu'].includes(currentView);
 
   // Statistics is active ONLY if we are on the profile view
   const isStatsActive = currentView === 'profile';
   
+  // Review is active ONLY if we are on the review view
+  const isReviewActive = currentView === 'review';
+
+  // Vocabulary is active ONLY if we are on the vocabulary view
+  const isVocabularyActive = currentView === 'vocabulary';
+
   // Settings is active ONLY if we are on the settings view
   const isSettingsActive = currentView === 'settings';
 
-  // Bottom right group is active if expanded (Menu, Profile, or Settings)
+  // Bottom right group is active if expanded (Menu, Profile, Review, Vocabulary, or Settings)
   const isMenuGroupActive = isExpanded;
 
   return (
@@ -49,7 +57,7 @@ export const BottomNav: React.FC<BottomNavProps> = ({
     >
       <div className="relative w-full h-full max-w-2xl mx-auto px-4">
         
-        {/* Expanded Top Row (Visible only in Menu/Profile/Settings view) */}
+        {/* Expanded Top Row (Visible only in Menu/Profile/Review/Vocabulary/Settings view) */}
         <div 
             className={`
                 absolute top-0 left-4 right-4 h-20 flex items-center justify-around
@@ -72,6 +80,36 @@ export const BottomNav: React.FC<BottomNavProps> = ({
                  </button>
             </div>
 
+            {/* Review Deck Button */}
+            <div className="flex flex-col items-center justify-center w-full">
+                <button
+                     onClick={() => onViewChange('review')}
+                     className={`p-2 rounded-2xl transition-colors duration-200 active:scale-95 ${
+                        isReviewActive ? activeColor : 'text-t-muted hover:text-t-text'
+                     }`}
+                     title={t.nav.review}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={isReviewActive ? 2 : 1.5} stroke="currentColor" className="w-6 h-6">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6.429 9.75L2.25 12l4.179 2.25m0-4.5l5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0l4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0l-5.571 3-5.571-3" />
+                    </svg>
+                </button>
+            </div>
+
+            {/* Vocabulary Notebook Button */}
+            <div className="flex flex-col items-center justify-center w-full">
+                <button
+                     onClick={() => onViewChange('vocabulary')}
+                     className={`p-2 rounded-2xl transition-colors duration-200 active:scale-95 ${
+                        isVocabularyActive ? activeColor : 'text-t-muted hover:text-t-text'
+                     }`}
+                     title={t.nav.vocabulary}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={isVocabularyActive ? 2 : 1.5} stroke="currentColor" className="w-6 h-6">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z" />
+                    </svg>
+                </button>
+            </div>
+
             {/* Settings Button (Above Profile) */}
             <div className="flex flex-col items-center justify-center w-full">
                 <button 
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useI18n } from '../services/i18n';
+
+interface CachedResultNoticeProps {
+  cachedAt: number;
+  onRefresh: () => void;
+}
+
+// Shown on results served from the response cache, with a way to ask the model again
+export const CachedResultNotice: React.FC<CachedResultNoticeProps> = ({ cachedAt, onRefresh }) => {
+  const { t, dateLocale } = useI18n();
+
+  const formatted = new Intl.DateTimeFormat(dateLocale, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    .format(new Date(cachedAt));
+
+  return (
+    <div className="px-6 py-2 flex items-center justify-between gap-3 bg-t-surface-alt border-b border-t-border text-xs text-t-muted">
+      <span>{t.results.cached.replace('{date}', formatted)}</span>
+      <button
+        onClick={onRefresh}
+        className="flex items-center gap-1 font-semibold text-primary-600 active:scale-95 transition-all"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+        </svg>
+        {t.results.refresh}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { Segment, CorrectionDecision, CorrectionDecisions } from '../types';
+import { useI18n } from '../services/i18n';
+import { resolveSegmentText, summarizeDecisions } from '../services/corrections';
+
+interface CorrectionReviewProps {
+  segments: Segment[];
+  decisions: CorrectionDecisions;
+  onDecide: (index: number, decision: CorrectionDecision | null) => void;
+  onAcceptAll: (severity: 'critical' | 'suggestion') => void;
+}
+
+export const CorrectionReview: React.FC<CorrectionReviewProps> = ({
+  segments,
+  decisions,
+  onDecide,
+  onAcceptAll
+}) => {
+  const { t } = useI18n();
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const corrections = t.corrections;
+
+  // Close the detail panel whenever a new analysis arrives
+  useEffect(() => {
+    setActiveIndex(null);
+    setIsEditing(false);
+  }, [segments]);
+
+  const summary = summarizeDecisions(segments, decisions);
+  const total = summary.accepted + summary.rejected + summary.pending;
+  const hasCritical = segments.some(s => s.isError && s.correction !== undefined && (s.severity === 'critical' || !s.severity));
+  const hasSuggestions = segments.some(s => s.isError && s.correction !== undefined && s.severity === 'suggestion');
+
+  const activeSegment = activeIndex !== null ? segments[activeIndex] : null;
+  const activeDecision = activeIndex !== null ? decisions[activeIndex] : undefined;
+
+  const handleSegmentClick = (index: number) => {
+    setIsEditing(false);
+    setActiveIndex(prev => (prev === index ? null : index));
+  };
+
+  const decide = (decision: CorrectionDecision | null) => {
+    if (activeIndex === null) return;
+    onDecide(activeIndex, decision);
+    setIsEditing(false);
+    setActiveIndex(null);
+  };
+
+  const startEditing = () => {
+    if (!activeSegment) return;
+    setEditValue(resolveSegmentText(activeSegment, activeDecision ?? { status: 'accepted' }));
+    setIsEditing(true);
+  };
+
+  const getSegmentClass = (segment: Segment, index: number) => {
+    const decision = decisions[index];
+    const ring = index === activeIndex ? 'ring-2 ring-primary-500/40' : '';
+
+    if (decision?.status === 'accepted' || decision?.status === 'edited') {
+      return `text-green-600 bg-green-500/10 border-green-500/30 ${ring}`;
+    }
+    if (decision?.status === 'rejected') {
+      return `text-t-text border-dotted border-t-muted/40 ${ring}`;
+    }
+
+    const isCritical = segment.severity === 'critical' || !segment.severity;
+    return `${isCritical ? 'text-t-err-text bg-t-err-bg border-red-500/30' : 'text-t-warn-text bg-t-warn-bg border-yellow-500/30'} ${ring}`;
+  };
+
+  return (
+    <div>
+      <div>
+        {segments.map((segment, index) => {
+          if (!segment.isError) {
+            return <span key={index} className="opacity-90">{segment.text}</span>;
+          }
+
+          return (
+            <span
+              key={index}
+              role="button"
+              onClick={() => handleSegmentClick(index)}
+              className={`${getSegmentClass(segment, index)} border-b-2 pb-0.5 rounded-t px-0.5 cursor-pointer transition-colors`}
+            >
+              {resolveSegmentText(segment, decisions[index])}
+            </span>
+          );
+        })}
+      </div>
+
+      {/* Detail panel for the selected correction */}
+      {activeSegment && (
+        <div className="mt-6 p-4 rounded-xl border border-t-border bg-t-surface-alt font-sans text-sm whitespace-normal animate-fade-in space-y-3 select-text">
+          <div className="flex flex-wrap items-baseline gap-2">
+            {activeSegment.category && (
+              <span className="text-[10px] font-bold uppercase tracking-wider text-t-muted border border-t-border rounded-full px-2 py-0.5">
+                {t.categories[activeSegment.category]}
+              </span>
+            )}
+            <span className="line-through text-t-muted">{activeSegment.text}</span>
+            <span className="text-t-muted">→</span>
+            <span className="font-semibold text-green-600">{activeSegment.correction ?? activeSegment.text}</span>
+          </div>
+          {activeSegment.reason && (
+            <p className="text-t-muted leading-relaxed">{activeSegment.reason}</p>
+          )}
+          {activeSegment.reasonEnglish && activeSegment.reasonEnglish !== activeSegment.reason && (
+            <p className="text-t-muted/80 leading-relaxed italic">
+              <span className="not-italic text-[10px] font-bold uppercase tracking-wider mr-2">{t.results.english}</span>
+              {activeSegment.reasonEnglish}
+            </p>
+          )}
+
+          {isEditing ? (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') decide({ status: 'edited', text: editValue }); }}
+                autoFocus
+                className="flex-1 px-3 py-2 bg-t-surface border border-t-border rounded-lg text-t-text focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+              <button
+                onClick={() => decide({ status: 'edited', text: editValue })}
+                className="px-4 py-2 rounded-lg font-medium bg-t-text text-t-surface active:opacity-90"
+              >
+                {corrections.save}
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {activeSegment.correction !== undefined && (
+                <button
+                  onClick={() => decide({ status: 'accepted' })}
+                  className="px-4 py-1.5 rounded-full font-medium bg-green-500 text-white active:scale-95 transition-all"
+                >
+                  {corrections.accept}
+                </button>
+              )}
+              <button
+                onClick={() => decide({ status: 'rejected' })}
+                className="px-4 py-1.5 rounded-full font-medium border border-red-500/30 text-red-500 active:bg-red-500/10 active:scale-95 transition-all"
+              >
+                {corrections.reject}
+              </button>
+              <button
+                onClick={startEditing}
+                className="px-4 py-1.5 rounded-full font-medium border border-t-border text-t-text active:bg-t-surface active:scale-95 transition-all"
+              >
+                {corrections.edit}
+              </button>
+              {activeDecision && (
+                <button
+                  onClick={() => decide(null)}
+                  className="px-4 py-1.5 rounded-full font-medium text-t-muted active:text-t-text active:scale-95 transition-all"
+                >
+                  {corrections.undo}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      {total > 0 && (
+        <div className="mt-6 flex flex-wrap items-center gap-2 font-sans text-xs whitespace-normal">
+          <span className="text-t-muted font-medium mr-auto">
+            {summary.pending > 0
+              ? corrections.progress.replace('{done}', String(total - summary.pending)).replace('{total}', String(total))
+              : corrections.allReviewed}
+          </span>
+          {hasCritical && (
+            <button
+              onClick={() => onAcceptAll('critical')}
+              className="px-3 py-1.5 rounded-full font-medium bg-t-err-bg text-t-err-text border border-red-500/30 active:scale-95 transition-all"
+            >
+              {corrections.applyCritical}
+            </button>
+          )}
+          {hasSuggestions && (
+            <button
+              onClick={() => onAcceptAll('suggestion')}
+              className="px-3 py-1.5 rounded-full font-medium bg-t-warn-bg text-t-warn-text border border-yellow-500/30 active:scale-95 transition-all"
+            >
+              {corrections.applySuggestions}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,12 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { DictionaryEntry } from '../types';
+import { DictionaryEntry, TargetLanguage, VocabularyEntry } from '../types';
 import { generateExampleSentence } from '../services/geminiService';
+import { CancelledError } from '../services/errors';
+import { getVocabularyWord, saveVocabularyWord, updateVocabularyWord, removeVocabularyWord } from '../services/storageService';
+import { normalizeTag } from '../services/vocabulary';
+import { LANGUAGES } from '../services/languages';
+import { useI18n } from '../services/i18n';
 
 interface DictionaryModalProps {
   isOpen: boolean;
@@ -10,37 +15,68 @@ interface DictionaryModalProps {
   data: DictionaryEntry[] | null;
   loading: boolean;
   error: string | null;
+  sourceSentence?: string;
+  onVocabularyChange?: () => void;
+  language: TargetLanguage;
 }
 
 export const DictionaryModal: React.FC<DictionaryModalProps> = ({ 
-    isOpen, onClose, term, data, loading, error 
+    isOpen, onClose, term, data, loading, error, sourceSentence, onVocabularyChange, language
 }) => {
+    const { t } = useI18n();
     const audioRef = useRef<HTMLAudioElement | null>(null);
     const [playingExample, setPlayingExample] = useState<string | null>(null);
     const [generatedExamples, setGeneratedExamples] = useState<Record<string, string>>({});
     const [loadingExamples, setLoadingExamples] = useState<Record<string, boolean>>({});
     const [showCopyFeedback, setShowCopyFeedback] = useState(false);
     const [copyFeedbackText, setCopyFeedbackText] = useState('');
+    const [savedEntry, setSavedEntry] = useState<VocabularyEntry | undefined>(undefined);
+    const [tagInput, setTagInput] = useState('');
+    const exampleRequestsRef = useRef<Set<AbortController>>(new Set());
+    const vocabulary = t.vocabulary;
 
-    // Stop audio when modal closes or unmounts
+    const cancelExampleRequests = () => {
+        exampleRequestsRef.current.forEach(controller => controller.abort());
+        exampleRequestsRef.current.clear();
+    };
+
+    // Stop audio and example generation when modal closes or unmounts
     useEffect(() => {
         if (!isOpen) {
             window.speechSynthesis.cancel();
+            cancelExampleRequests();
             setPlayingExample(null);
             setShowCopyFeedback(false);
         }
         return () => {
             window.speechSynthesis.cancel();
+            cancelExampleRequests();
         };
     }, [isOpen]);
 
-    // Stop audio and clear generated cache when data changes (new search)
+    // Stop audio and reset generated cache when data changes (new search).
+    // Words already in the notebook bring back the examples generated for them earlier.
     useEffect(() => {
+        let cancelled = false;
         window.speechSynthesis.cancel();
+        cancelExampleRequests();
         setPlayingExample(null);
+        setSavedEntry(undefined);
         setGeneratedExamples({});
         setLoadingExamples({});
         setShowCopyFeedback(false);
+        setTagInput('');
+
+        if (data && data.length > 0) {
+            getVocabularyWord(data[0].word || term, language).then(saved => {
+                if (cancelled || !saved) return;
+                setSavedEntry(saved);
+                setGeneratedExamples(prev => ({ ...saved.generatedExamples, ...prev }));
+            });
+        }
+        return () => {
+            cancelled = true;
+        };
     }, [data]);
 
     if (!isOpen) return null;
@@ -69,7 +105,7 @@ export const DictionaryModal: React.FC<DictionaryModalProps> = ({
             setPlayingExample(text);
 
             const utterance = new SpeechSynthesisUtterance(text);
-            utterance.lang = 'en-US';
+            utterance.lang = LANGUAGES[language].speechLocale;
             utterance.onend = () => setPlayingExample(null);
             utterance.onerror = () => setPlayingExample(null);
             window.speechSynthesis.speak(utterance);
@@ -77,15 +113,26 @@ export const DictionaryModal: React.FC<DictionaryModalProps> = ({
     };
 
     const handleGenerateExample = async (word: string, definition: string, uniqueKey: string) => {
+        const controller = new AbortController();
+        exampleRequestsRef.current.add(controller);
         setLoadingExamples(prev => ({ ...prev, [uniqueKey]: true }));
         try {
-            const result = await generateExampleSentence(word, definition);
+            const result = await generateExampleSentence(word, definition, language, controller.signal);
             if (result) {
                 setGeneratedExamples(prev => ({ ...prev, [uniqueKey]: result }));
+                if (savedEntry) {
+                    // Re-read so examples generated concurrently aren't overwritten
+                    const current = await getVocabularyWord(savedEntry.word, savedEntry.language);
+                    await updateVocabularyWord(savedEntry.id, { generatedExamples: { ...current?.generatedExamples, [uniqueKey]: result } });
+                    onVocabularyChange?.();
+                }
             }
         } catch (error) {
-            console.error("Failed to generate example", error);
+            if (!(error instanceof CancelledError)) {
+                console.error("Failed to generate example", error);
+            }
         } finally {
+            exampleRequestsRef.current.delete(controller);
             setLoadingExamples(prev => ({ ...prev, [uniqueKey]: false }));
         }
     };
@@ -97,6 +144,37 @@ export const DictionaryModal: React.FC<DictionaryModalProps> = ({
         setTimeout(() => setShowCopyFeedback(false), 2000);
     };
 
+    const handleToggleSaved = async () => {
+        if (!data || data.length === 0) return;
+
+        if (savedEntry) {
+            await removeVocabularyWord(savedEntry.id);
+            setSavedEntry(undefined);
+        } else {
+            const saved = await saveVocabularyWord(data[0].word || term, language, data, generatedExamples, sourceSentence);
+            if (!saved) return;
+            setSavedEntry(saved);
+            setCopyFeedbackText(vocabulary.savedToast);
+            setShowCopyFeedback(true);
+            setTimeout(() => setShowCopyFeedback(false), 2000);
+        }
+        onVocabularyChange?.();
+    };
+
+    const updateTags = async (tags: string[]) => {
+        if (!savedEntry) return;
+        setSavedEntry({ ...savedEntry, tags });
+        await updateVocabularyWord(savedEntry.id, { tags });
+        onVocabularyChange?.();
+    };
+
+    const handleAddTag = () => {
+        const tag = normalizeTag(tagInput);
+        setTagInput('');
+        if (!savedEntry || !tag || savedEntry.tags.includes(tag)) return;
+        updateTags([...savedEntry.tags, tag]);
+    };
+
     // Helper to find the best phonetic with audio
     const getPhoneticData = (entry: DictionaryEntry) => {
         const withAudio = entry.phonetics.find(p => p.audio && p.text);
@@ -122,16 +200,62 @@ export const DictionaryModal: React.FC<DictionaryModalProps> = ({
                         </svg>
                         Dictionary
                     </h2>
-                    <button 
-                        onClick={onClose} 
-                        className="text-t-muted hover:text-t-text transition-colors p-1 rounded-full active:bg-t-surface"
-                    >
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                    </button>
+                    <div className="flex items-center gap-2">
+                        {data && data.length > 0 && !loading && !error && (
+                            <button
+                                onClick={handleToggleSaved}
+                                className={`flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-full transition-colors active:scale-95 ${savedEntry ? 'text-primary-600 bg-primary-500/10' : 'text-t-muted active:text-t-text'}`}
+                                title={savedEntry ? vocabulary.removeWord : vocabulary.saveWord}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" fill={savedEntry ? "currentColor" : "none"} viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z" />
+                                </svg>
+                                <span>{savedEntry ? vocabulary.saved : vocabulary.saveWord}</span>
+                            </button>
+                        )}
+                        <button 
+                            onClick={onClose} 
+                            className="text-t-muted hover:text-t-text transition-colors p-1 rounded-full active:bg-t-surface"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
                 </div>
 
+                {/* Notebook tags & source sentence (saved words only) */}
+                {savedEntry && !loading && (
+                    <div className="px-6 py-3 border-b border-t-border bg-t-surface-alt/50 shrink-0 space-y-2">
+                        {savedEntry.sourceSentence && (
+                            <p className="text-xs text-t-muted italic truncate" title={savedEntry.sourceSentence}>
+                                {vocabulary.fromSentence} "{savedEntry.sourceSentence}"
+                            </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            {savedEntry.tags.map(tag => (
+                                <button
+                                    key={tag}
+                                    onClick={() => updateTags(savedEntry.tags.filter(existing => existing !== tag))}
+                                    className="px-2 py-0.5 text-xs rounded-full bg-primary-500/10 text-primary-600 active:scale-95 transition-all"
+                                    title={vocabulary.removeTag}
+                                >
+                                    #{tag} ×
+                                </button>
+                            ))}
+                            <input
+                                type="text"
+                                value={tagInput}
+                                onChange={(e) => setTagInput(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(); }}
+                                onBlur={handleAddTag}
+                                placeholder={vocabulary.addTag}
+                                className="flex-1 min-w-[6rem] bg-transparent text-xs text-t-text placeholder-t-muted/50 outline-none py-0.5"
+                            />
+                        </div>
+                    </div>
+                )}
+
                 {/* Content */}
                 <div className="p-6 overflow-y-auto scrollbar-thin scrollbar-thumb-t-border scrollbar-track-transparent select-none">
                     {loading ? (
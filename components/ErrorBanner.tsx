@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../services/i18n';
+import { AppError, AppErrorKind } from '../services/errors';
+
+interface ErrorBannerProps {
+  error: AppError;
+  onRetry?: () => void;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}
+
+// Errors the user fixes in Settings rather than by trying again
+const SETTINGS_KINDS: AppErrorKind[] = ['missing-key', 'invalid-key', 'budget'];
+
+// Inline explanation of why a check or rewrite failed, with what the user can do about it
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onRetry, onOpenSettings, onDismiss }) => {
+  const { t } = useI18n();
+
+  // Seconds left before the server said it would accept requests again
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!error.retryAfterMs) {
+      setSecondsLeft(0);
+      return;
+    }
+    const availableAt = Date.now() + error.retryAfterMs;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((availableAt - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [error]);
+
+  const messages: Record<AppErrorKind, string> = {
+    'missing-key': t.errors.missingKey,
+    'invalid-key': t.errors.permissionDenied,
+    'quota': t.errors.limit,
+    'overloaded': t.errors.overloaded,
+    'offline': t.errors.offline,
+    'safety': t.errors.safety,
+    'malformed': t.errors.malformedResponse,
+    'off-task': t.errors.offTask,
+    'budget': t.errors.budgetExceeded,
+    'cancelled': t.errors.generic,
+    'unknown': t.errors.generic
+  };
+
+  const needsSettings = SETTINGS_KINDS.includes(error.kind);
+  // Sending the same request again can't help with a settings problem or a blocked text
+  const canRetry = !!onRetry && !needsSettings && error.kind !== 'safety';
+
+  return (
+    <div role="alert" className="flex items-start gap-3 p-4 rounded-2xl border border-red-500/30 bg-red-500/10 text-red-500 animate-fade-in">
+      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 shrink-0 mt-0.5">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z" />
+      </svg>
+
+      <div className="flex-1 space-y-3">
+        <p className="text-sm leading-relaxed text-t-text">
+          {messages[error.kind]}
+          {secondsLeft > 0 && ` ${t.errors.retryAfter.replace('{seconds}', String(secondsLeft))}`}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {canRetry && (
+            <button
+              onClick={onRetry}
+              disabled={secondsLeft > 0}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-red-500 text-white active:scale-95 transition-all disabled:opacity-50 disabled:active:scale-100"
+            >
+              {t.errors.retry}
+            </button>
+          )}
+          {needsSettings && (
+            <button
+              onClick={onOpenSettings}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold border border-red-500/30 text-red-500 active:bg-red-500/10 active:scale-95 transition-all"
+            >
+              {t.errors.openSettings}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={onDismiss}
+        title={t.errors.dismiss}
+        aria-label={t.errors.dismiss}
+        className="p-1 rounded-lg opacity-70 hover:opacity-100 transition-opacity"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
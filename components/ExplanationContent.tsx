@@ -0,0 +1,52 @@
+import React from 'react';
+import { Explanation } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface ExplanationContentProps {
+  explanation: Explanation;
+  explanationEnglish?: Explanation;
+  bulletClassName: string;
+}
+
+const ExplanationBody: React.FC<{ explanation: Explanation; bulletClassName: string }> = ({ explanation, bulletClassName }) => (
+  <>
+    <p className="text-t-text leading-relaxed font-medium mb-4">
+      {explanation.overview}
+    </p>
+
+    <ul className="space-y-3">
+      {explanation.improvements.map((item, index) => (
+        <li key={index} className="flex items-start gap-3 text-sm text-t-muted leading-relaxed">
+          <span className={`flex-shrink-0 w-1.5 h-1.5 mt-2 rounded-full ${bulletClassName}`}></span>
+          <span>{item}</span>
+        </li>
+      ))}
+    </ul>
+  </>
+);
+
+// Explanation card body; with an English copy the two versions sit side by side
+export const ExplanationContent: React.FC<ExplanationContentProps> = ({ explanation, explanationEnglish, bulletClassName }) => {
+  const { t } = useI18n();
+
+  if (!explanationEnglish) {
+    return (
+      <div className="p-6">
+        <ExplanationBody explanation={explanation} bulletClassName={bulletClassName} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-t-border">
+      <div className="p-6">
+        <h3 className="text-[10px] font-bold text-t-muted uppercase tracking-wider mb-3">{t.results.yourLanguage}</h3>
+        <ExplanationBody explanation={explanation} bulletClassName={bulletClassName} />
+      </div>
+      <div className="p-6">
+        <h3 className="text-[10px] font-bold text-t-muted uppercase tracking-wider mb-3">{t.results.english}</h3>
+        <ExplanationBody explanation={explanationEnglish} bulletClassName={bulletClassName} />
+      </div>
+    </div>
+  );
+};
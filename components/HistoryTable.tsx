@@ -0,0 +1,376 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ErrorCategory, HistoryEntry, RewriteStyle } from '../types';
+import { HistorySearch, HistorySort, queryHistory } from '../services/storageService';
+import { ERROR_CATEGORIES } from '../services/errorTaxonomy';
+import { useI18n } from '../services/i18n';
+
+interface HistoryTableProps {
+  historyUpdateTrigger: number;
+  onOpenEntry: (entry: HistoryEntry) => void;
+}
+
+const PAGE_SIZE = 20;
+
+// Each query scans the whole history store, so typing only searches once it pauses
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SORTS: HistorySort[] = ['newest', 'oldest', 'most-errors', 'fewest-errors'];
+
+// Filter values as they sit in the form; dates stay as YYYY-MM-DD strings until queried
+interface HistoryFilters {
+  text: string;
+  type: '' | NonNullable<HistoryEntry['type']>;
+  rewriteStyle: '' | RewriteStyle;
+  outcome: '' | 'perfect' | 'errors';
+  category: '' | ErrorCategory;
+  from: string;
+  to: string;
+  sort: HistorySort;
+}
+
+const EMPTY_FILTERS: HistoryFilters = {
+  text: '',
+  type: '',
+  rewriteStyle: '',
+  outcome: '',
+  category: '',
+  from: '',
+  to: '',
+  sort: 'newest'
+};
+
+const toSearch = (filters: HistoryFilters, page: number): HistorySearch => ({
+  text: filters.text || undefined,
+  type: filters.type || undefined,
+  rewriteStyle: filters.rewriteStyle || undefined,
+  outcome: filters.outcome || undefined,
+  category: filters.category || undefined,
+  // Local-day bounds, both inclusive
+  since: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+  until: filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined,
+  sort: filters.sort,
+  page,
+  pageSize: PAGE_SIZE
+});
+
+const selectClassName = "px-3 py-2 bg-t-surface-alt border border-t-border rounded-xl text-xs text-t-text focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+export const HistoryTable: React.FC<HistoryTableProps> = ({ historyUpdateTrigger, onOpenEntry }) => {
+  const { t, dateLocale } = useI18n();
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [searchInput, setSearchInput] = useState(''); // What's in the search box; filters.text follows it
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const expansionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const profile = t.profile;
+  const labels = profile.filters;
+  const rewriteStyles = Object.keys(t.styles) as RewriteStyle[];
+
+  useEffect(() => {
+    let cancelled = false;
+    queryHistory(toSearch(filters, page)).then(result => {
+      if (cancelled) return;
+      // Entries were removed underneath us (clear/import): step back to the last page
+      if (result.entries.length === 0 && page > 0) {
+        setPage(Math.max(0, Math.ceil(result.total / PAGE_SIZE) - 1));
+        return;
+      }
+      setEntries(result.entries);
+      setTotal(result.total);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page, historyUpdateTrigger]);
+
+  useEffect(() => {
+    if (searchInput === filters.text) return;
+    const timer = setTimeout(() => updateFilters({ text: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    return () => {
+      if (expansionTimerRef.current) clearTimeout(expansionTimerRef.current);
+    };
+  }, []);
+
+  const updateFilters = (changes: Partial<HistoryFilters>) => {
+    setFilters(prev => {
+      const next = { ...prev, ...changes };
+      // Drop filters that can't apply to the chosen type
+      if (next.type !== '' && next.type !== 'rewrite') next.rewriteStyle = '';
+      if (next.type !== '' && next.type !== 'grammar') {
+        next.outcome = '';
+        next.category = '';
+      }
+      return next;
+    });
+    setPage(0);
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  const handleRowClick = (entry: HistoryEntry) => {
+    // Entries with stored results reopen in the checker; older ones can only be expanded
+    if (entry.analysis || entry.rewriteAnalysis) {
+      onOpenEntry(entry);
+      return;
+    }
+
+    if (expansionTimerRef.current) {
+      clearTimeout(expansionTimerRef.current);
+    }
+
+    // If clicking already expanded, just reset timer
+    setExpandedId(entry.id);
+
+    expansionTimerRef.current = setTimeout(() => {
+      setExpandedId(null);
+    }, 3000);
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Intl.DateTimeFormat(dateLocale, { month: 'short', day: 'numeric' }).format(new Date(timestamp));
+  };
+
+  const getResultBadge = (entry: HistoryEntry) => {
+    if (entry.type === 'rewrite') {
+      return (
+        <div className="flex justify-center" title={`Rewrite: ${entry.rewriteStyle || 'Custom'}`}>
+          <span className="block w-2.5 h-2.5 rounded-full bg-purple-500 shadow-sm"></span>
+        </div>
+      );
+    }
+
+    if (entry.type === 'dictionary') {
+      return (
+        <div className="flex justify-center" title={labels.types.dictionary}>
+          <span className="block w-2.5 h-2.5 rounded-full bg-blue-500 shadow-sm"></span>
+        </div>
+      );
+    }
+
+    if (entry.isPerfect) {
+      return (
+        <div className="flex justify-center">
+          <span className="block w-2.5 h-2.5 rounded-full bg-green-500 shadow-sm"></span>
+        </div>
+      );
+    }
+    if (entry.errorCount > 0) {
+      return (
+        <div className="flex justify-center">
+          <span className="block w-2.5 h-2.5 rounded-full bg-red-500 shadow-sm"></span>
+        </div>
+      );
+    }
+    return (
+      <div className="flex justify-center">
+        <span className="block w-2.5 h-2.5 rounded-full bg-yellow-500 shadow-sm"></span>
+      </div>
+    );
+  };
+
+  const firstShown = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastShown = Math.min(total, (page + 1) * PAGE_SIZE);
+  const hasNextPage = lastShown < total;
+
+  return (
+    <div className="bg-t-surface rounded-2xl border border-t-border overflow-hidden shadow-sm">
+      <div className="px-6 py-4 border-b border-t-border flex justify-between items-center">
+        <h3 className="font-bold text-t-text">{profile.recentHistory}</h3>
+        <span className="text-xs text-t-muted">{total} {profile.entries}</span>
+      </div>
+
+      {/* Search & filters */}
+      <div className="px-4 py-4 border-b border-t-border space-y-3">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder={labels.searchPlaceholder}
+          className="w-full px-4 py-2.5 bg-t-surface-alt border border-t-border rounded-xl text-sm text-t-text placeholder-t-muted/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={filters.type}
+            onChange={(e) => updateFilters({ type: e.target.value as HistoryFilters['type'] })}
+            className={selectClassName}
+          >
+            <option value="">{labels.allTypes}</option>
+            <option value="grammar">{labels.types.grammar}</option>
+            <option value="rewrite">{labels.types.rewrite}</option>
+            <option value="dictionary">{labels.types.dictionary}</option>
+          </select>
+
+          {(filters.type === '' || filters.type === 'rewrite') && (
+            <select
+              value={filters.rewriteStyle}
+              onChange={(e) => updateFilters({ rewriteStyle: e.target.value as HistoryFilters['rewriteStyle'] })}
+              className={selectClassName}
+            >
+              <option value="">{labels.allStyles}</option>
+              {rewriteStyles.map(style => (
+                <option key={style} value={style}>{t.styles[style]}</option>
+              ))}
+            </select>
+          )}
+
+          {(filters.type === '' || filters.type === 'grammar') && (
+            <>
+              <select
+                value={filters.outcome}
+                onChange={(e) => updateFilters({ outcome: e.target.value as HistoryFilters['outcome'] })}
+                className={selectClassName}
+              >
+                <option value="">{labels.allOutcomes}</option>
+                <option value="perfect">{labels.perfect}</option>
+                <option value="errors">{labels.withErrors}</option>
+              </select>
+              <select
+                value={filters.category}
+                onChange={(e) => updateFilters({ category: e.target.value as HistoryFilters['category'] })}
+                className={selectClassName}
+              >
+                <option value="">{labels.allCategories}</option>
+                {ERROR_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{t.categories[category]}</option>
+                ))}
+              </select>
+            </>
+          )}
+
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilters({ sort: e.target.value as HistorySort })}
+            className={selectClassName}
+          >
+            {SORTS.map(sort => (
+              <option key={sort} value={sort}>{labels.sort[sort]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-t-muted">
+          <label className="flex items-center gap-2">
+            {labels.from}
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className={selectClassName}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            {labels.to}
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className={selectClassName}
+            />
+          </label>
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setSearchInput('');
+                updateFilters(EMPTY_FILTERS);
+              }}
+              className="ml-auto px-3 py-2 text-xs font-medium text-t-muted active:text-t-text transition-colors"
+            >
+              {labels.clear}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="p-12 text-center text-t-muted">
+          <p>{hasFilters ? labels.noMatches : profile.noHistory}</p>
+        </div>
+      ) : (
+        <div className="overflow-auto max-h-[23rem] scrollbar-thin scrollbar-thumb-t-border scrollbar-track-transparent">
+          <table className="w-full table-fixed">
+            <thead className="sticky top-0 z-10">
+              <tr className="bg-t-surface-alt text-xs text-t-muted uppercase tracking-wider border-b border-t-border shadow-sm">
+                <th className="px-4 py-3 font-medium w-[20%] text-center whitespace-nowrap">{profile.cols.date}</th>
+                <th className="px-4 py-3 font-medium w-[50%] text-center whitespace-nowrap">{profile.cols.text}</th>
+                <th className="px-4 py-3 font-medium w-[30%] text-center whitespace-nowrap">{profile.cols.result}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-t-border bg-t-surface">
+              {entries.map((entry) => (
+                <tr
+                  key={entry.id}
+                  onClick={() => handleRowClick(entry)}
+                  title={entry.analysis || entry.rewriteAnalysis ? profile.openEntry : undefined}
+                  className={`active:bg-t-surface-alt/30 transition-colors cursor-pointer ${entry.id === expandedId ? 'bg-t-surface-alt/20' : ''}`}
+                >
+                  <td className="px-2 py-4 text-sm text-t-muted text-center align-middle whitespace-nowrap">
+                    {formatDate(entry.timestamp)}
+                  </td>
+                  <td className="px-2 py-4 text-sm text-t-text font-serif text-center align-middle transition-all duration-300">
+                    <div className={`mx-auto transition-all duration-300 ${entry.id === expandedId ? 'whitespace-pre-wrap break-words w-full text-left' : 'truncate w-full text-center'}`}>
+                       {entry.id === expandedId ? (entry.fullText || entry.textSnippet) : entry.textSnippet}
+                    </div>
+                    {entry.id === expandedId && entry.finalText && entry.finalText !== entry.fullText && (
+                      <div className="mt-3 pt-3 border-t border-t-border whitespace-pre-wrap break-words w-full text-left text-green-600">
+                        {entry.finalText}
+                      </div>
+                    )}
+                    {entry.id === expandedId && ((entry.acceptedCount ?? 0) > 0 || (entry.rejectedCount ?? 0) > 0) && (
+                      <div className="mt-2 text-xs font-sans text-t-muted text-left">
+                        {profile.decisionSummary
+                          .replace('{accepted}', String(entry.acceptedCount ?? 0))
+                          .replace('{rejected}', String(entry.rejectedCount ?? 0))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-4 text-sm text-center align-middle">
+                     {getResultBadge(entry)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="px-4 py-3 border-t border-t-border flex items-center justify-between text-xs text-t-muted">
+          <button
+            onClick={() => setPage(prev => Math.max(0, prev - 1))}
+            disabled={page === 0}
+            className="p-2 rounded-full active:bg-t-surface-alt transition-colors disabled:opacity-30"
+            title={labels.previous}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+            </svg>
+          </button>
+          <span className="tabular-nums">
+            {labels.pageRange
+              .replace('{from}', String(firstShown))
+              .replace('{to}', String(lastShown))
+              .replace('{total}', String(total))}
+          </span>
+          <button
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={!hasNextPage}
+            className="p-2 rounded-full active:bg-t-surface-alt transition-colors disabled:opacity-30"
+            title={labels.next}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
 
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { LoadingState, GrammarAnalysis, RewriteStyle, AppColor } from '../types';
-import { t } from '../services/translations';
+import { LoadingState, GrammarAnalysis, RewriteStyle, AppColor, CorrectionDecision, CorrectionDecisions, TargetLanguage } from '../types';
+import { useI18n } from '../services/i18n';
+import { DOCUMENT_MAX_LENGTH, SENTENCE_MAX_LENGTH } from '../services/documentChunker';
+import { LANGUAGES, getLanguageDisplayName, isTargetLanguage } from '../services/languages';
+import { CorrectionReview } from './CorrectionReview';
 
 interface InputAreaProps {
   value: string;
@@ -16,6 +19,14 @@ interface InputAreaProps {
   analysis: GrammarAnalysis | null;
   colorScheme: AppColor;
   hasRewriteResult: boolean;
+  isDocumentMode: boolean;
+  onDocumentModeChange: (enabled: boolean) => void;
+  documentProgress: { completed: number; total: number } | null;
+  decisions: CorrectionDecisions;
+  onDecisionChange: (index: number, decision: CorrectionDecision | null) => void;
+  onAcceptAll: (severity: 'critical' | 'suggestion') => void;
+  targetLanguage: TargetLanguage;
+  onTargetLanguageChange: (language: TargetLanguage) => void;
 }
 
 // Map color codes to their respective color classes for buttons
@@ -40,13 +51,25 @@ export const InputArea: React.FC<InputAreaProps> = ({
   loadingState, 
   analysis,
   colorScheme,
-  hasRewriteResult
+  hasRewriteResult,
+  isDocumentMode,
+  onDocumentModeChange,
+  documentProgress,
+  decisions,
+  onDecisionChange,
+  onAcceptAll,
+  targetLanguage,
+  onTargetLanguageChange
 }) => {
+  const { t } = useI18n();
   const input = t.input;
   const tStyles = t.styles;
 
   const isAnalyzing = loadingState === LoadingState.LOADING;
   const hasResult = analysis !== null;
+  const maxLength = isDocumentMode ? DOCUMENT_MAX_LENGTH : SENTENCE_MAX_LENGTH;
+  const detectedLanguage = analysis?.detectedLanguage;
+  const hasLanguageMismatch = !!detectedLanguage && detectedLanguage !== targetLanguage;
   const [isRewriteMenuOpen, setIsRewriteMenuOpen] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isExpanded, setIsExpanded] = useState(true);
@@ -147,8 +170,8 @@ export const InputArea: React.FC<InputAreaProps> = ({
     recognition.continuous = true;
     recognition.interimResults = false; // Disable interim results
     
-    // Default to English
-    recognition.lang = 'en-US';
+    // Listen for the language being practised
+    recognition.lang = LANGUAGES[targetLanguage].speechLocale;
 
     recognition.onstart = () => {
       setIsListening(true);
@@ -291,6 +314,19 @@ export const InputArea: React.FC<InputAreaProps> = ({
     </button>
   );
 
+  const renderDocumentModeButton = () => (
+    <button 
+      onClick={() => onDocumentModeChange(!isDocumentMode)}
+      disabled={isAnalyzing}
+      className={`text-xs flex items-center justify-center font-medium p-2 transition-all rounded-full active:scale-95 ${isDocumentMode ? 'text-primary-600' : 'text-t-muted active:text-t-text'}`}
+      title={isDocumentMode ? input.sentenceMode : input.documentMode}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={isDocumentMode ? 2 : 1.5} stroke="currentColor" className="w-5 h-5">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+      </svg>
+    </button>
+  );
+
   const renderToggleButton = () => (
     <button 
         onClick={() => setIsExpanded(!isExpanded)}
@@ -322,6 +358,7 @@ export const InputArea: React.FC<InputAreaProps> = ({
                 <div className="flex items-center gap-1 transition-all animate-fade-in">
                    {value.length > 0 && renderClearButton()}
                    {renderMicButton()}
+                   {renderDocumentModeButton()}
                    {renderToggleButton()}
                 </div>
               )}
@@ -333,6 +370,7 @@ export const InputArea: React.FC<InputAreaProps> = ({
                 <>
                   {value.length > 0 && renderClearButton()}
                   {renderMicButton()}
+                  {renderDocumentModeButton()}
                 </>
               )}
 
@@ -374,27 +412,36 @@ export const InputArea: React.FC<InputAreaProps> = ({
         
         <div className="relative flex-grow">
           {hasResult ? (
-            /* Analysis View (Static, No Copy, No Tooltips) */
-            <div className="w-full min-h-[150px] p-8 text-xl leading-relaxed font-serif text-t-text whitespace-pre-wrap animate-fade-in select-none cursor-default">
-              {analysis.segments.map((segment, index) => {
-                  if (segment.isError) {
-                    const isCritical = segment.severity === 'critical' || !segment.severity;
-                    const textColor = isCritical ? 'text-t-err-text' : 'text-t-warn-text';
-                    const bgColor = isCritical ? 'bg-t-err-bg border-red-500/30' : 'bg-t-warn-bg border-yellow-500/30';
-                    
-                    return (
-                      <span 
-                        key={index} 
-                        className={`pointer-events-none ${textColor}`}
-                      >
-                        <span className={`${bgColor} border-b-2 pb-0.5 rounded-t px-0.5`}>
-                          {segment.text}
-                        </span>
-                      </span>
-                    );
-                  }
-                  return <span key={index} className="opacity-90">{segment.text}</span>;
-                })}
+            /* Analysis View (tap a highlighted part to review it) */
+            <div className={`w-full min-h-[150px] p-8 text-xl leading-relaxed font-serif text-t-text whitespace-pre-wrap animate-fade-in select-none cursor-default ${isDocumentMode ? 'max-h-[640px] overflow-y-auto' : ''}`}>
+              <CorrectionReview
+                segments={analysis.segments}
+                decisions={decisions}
+                onDecide={onDecisionChange}
+                onAcceptAll={onAcceptAll}
+              />
+              {analysis.alignment?.status === 'mismatch' && (
+                <p className="mt-6 text-xs font-sans text-t-warn-text bg-t-warn-bg border border-yellow-500/30 rounded-lg px-3 py-2 whitespace-normal">
+                  {input.alignmentWarning}
+                </p>
+              )}
+              {hasLanguageMismatch && detectedLanguage && (
+                <div className="mt-3 flex items-center justify-between gap-3 text-xs font-sans text-t-warn-text bg-t-warn-bg border border-yellow-500/30 rounded-lg px-3 py-2 whitespace-normal">
+                  <span>
+                    {input.languageMismatch
+                      .replace('{detected}', getLanguageDisplayName(detectedLanguage))
+                      .replace('{target}', LANGUAGES[targetLanguage].nativeName)}
+                  </span>
+                  {isTargetLanguage(detectedLanguage) && (
+                    <button
+                      onClick={() => onTargetLanguageChange(detectedLanguage)}
+                      className="shrink-0 font-bold underline underline-offset-2 active:opacity-70"
+                    >
+                      {input.switchLanguage.replace('{language}', LANGUAGES[detectedLanguage].nativeName)}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ) : (
             /* Edit Mode (Textarea) */
@@ -402,7 +449,7 @@ export const InputArea: React.FC<InputAreaProps> = ({
               <textarea
                   ref={textareaRef}
                   id="grammar-input"
-                  className="w-full min-h-[150px] max-h-[240px] p-8 pb-12 text-xl text-t-text placeholder-t-muted/30 resize-none focus:outline-none font-serif leading-relaxed bg-transparent overflow-y-auto transition-colors duration-300 notranslate"
+                  className={`w-full min-h-[150px] ${isDocumentMode ? 'max-h-[480px]' : 'max-h-[240px]'} p-8 pb-12 text-xl text-t-text placeholder-t-muted/30 resize-none focus:outline-none font-serif leading-relaxed bg-transparent overflow-y-auto transition-colors duration-300 notranslate`}
                   placeholder={input.placeholder}
                   value={value}
                   onChange={(e) => onChange(e.target.value)}
@@ -410,13 +457,13 @@ export const InputArea: React.FC<InputAreaProps> = ({
                   disabled={isAnalyzing}
                   spellCheck={false}
                   translate="no"
-                  maxLength={300}
+                  maxLength={maxLength}
                   rows={1}
               />
               {/* Character Counter positioned inside */}
               <div className="absolute bottom-4 left-8 pointer-events-none transition-opacity duration-300">
                   <span className={`text-xs text-t-muted font-medium ${value.length === 0 ? 'opacity-0' : 'opacity-100'}`}>
-                      {value.length} / 300 {input.chars}
+                      {value.length} / {maxLength} {input.chars}
                   </span>
               </div>
             </>
@@ -426,6 +473,17 @@ export const InputArea: React.FC<InputAreaProps> = ({
         {/* Footer / Actions */}
         {!hasResult && (
           <div className="p-4 bg-t-surface border-t border-t-border rounded-t-3xl flex justify-end items-center relative overflow-hidden h-[72px]">
+              {/* Document Check Progress */}
+              {isAnalyzing && documentProgress && (
+                <>
+                  <div className="absolute top-0 left-0 h-0.5 bg-primary-500 transition-all duration-500" style={{ width: `${(documentProgress.completed / Math.max(documentProgress.total, 1)) * 100}%` }} />
+                  <span className="absolute left-6 text-xs text-t-muted font-medium animate-fade-in">
+                    {input.documentProgress
+                      .replace('{completed}', String(documentProgress.completed))
+                      .replace('{total}', String(documentProgress.total))}
+                  </span>
+                </>
+              )}
               <div 
                   className="flex items-center gap-2 w-full justify-end" 
                   ref={menuRef}
@@ -65,6 +65,10 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
             if (item.text === ' ') {
                 return <span key={index} className="whitespace-pre"> </span>;
             }
+            // Line breaks (multi-paragraph documents) force a new flex row
+            if (item.text.includes('\n')) {
+                return <span key={index} className={`basis-full ${/\n\s*\n/.test(item.text) ? 'h-4' : 'h-0'}`} />;
+            }
             return <span key={index}>{item.text}</span>;
         }
 
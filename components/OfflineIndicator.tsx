@@ -0,0 +1,108 @@
+import React from 'react';
+import { useI18n } from '../services/i18n';
+
+// What the offline queue is doing while there is a connection
+export type QueueStatus = 'idle' | 'running' | 'waiting' | 'stalled';
+
+interface OfflineIndicatorProps {
+  isOnline: boolean;
+  pendingCount: number; // Checks waiting in the offline queue
+  queueStatus: QueueStatus;
+  finishedCount: number; // Queued checks that ran since the notice was last dismissed
+  droppedCount: number; // Queued checks removed because they couldn't succeed
+  onRetry: () => void;
+  onDiscard: () => void;
+  onViewHistory: () => void;
+  onDismiss: () => void;
+}
+
+const rowClassName = "flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border border-t-border bg-t-surface-alt text-sm animate-fade-in";
+
+// Connection status and what happened to checks submitted without one
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
+  isOnline,
+  pendingCount,
+  queueStatus,
+  finishedCount,
+  droppedCount,
+  onRetry,
+  onDiscard,
+  onViewHistory,
+  onDismiss
+}) => {
+  const { t } = useI18n();
+  const offline = t.offline;
+
+  if (isOnline && pendingCount === 0 && finishedCount === 0 && droppedCount === 0) return null;
+
+  if (!isOnline) {
+    return (
+      <div role="status" className="flex items-start gap-3 p-4 rounded-2xl border border-t-border bg-t-surface-alt animate-fade-in">
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 shrink-0 mt-0.5 text-t-muted">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l8.735 8.735m0 0a.374.374 0 11.53.53m-.53-.53l.53.53m0 0L21 21M14.652 9.348a3.75 3.75 0 010 5.304m2.121-7.425a6.75 6.75 0 010 9.546m2.121-11.667c3.808 3.807 3.808 9.98 0 13.788m-9.546-4.242a3.733 3.733 0 01-1.06-2.122m-1.061 4.243a6.75 6.75 0 01-1.625-6.929m-.496 9.05c-3.068-3.067-3.664-7.67-1.79-11.334M12 12h.008v.008H12V12z" />
+        </svg>
+        <div className="space-y-1">
+          <p className="text-sm font-semibold text-t-text">{offline.title}</p>
+          <p className="text-xs text-t-muted leading-relaxed">
+            {pendingCount > 0 ? offline.queued.replace('{count}', String(pendingCount)) : offline.hint}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const count = String(pendingCount);
+
+  return (
+    <div role="status" className="space-y-3">
+      {pendingCount > 0 && queueStatus === 'stalled' && (
+        <div className={`${rowClassName} border-red-500/30 bg-red-500/10`}>
+          <span className="text-t-text">{offline.stalled.replace('{count}', count)}</span>
+          <div className="flex items-center gap-3 shrink-0">
+            <button onClick={onRetry} className="font-semibold text-primary-600 active:scale-95 transition-all">
+              {offline.retryNow}
+            </button>
+            <button onClick={onDiscard} className="text-t-muted hover:text-t-text transition-colors">
+              {offline.discard}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pendingCount > 0 && queueStatus === 'waiting' && (
+        <div className={rowClassName}>
+          <span className="text-t-muted">{offline.waiting.replace('{count}', count)}</span>
+          <button onClick={onRetry} className="font-semibold text-primary-600 active:scale-95 transition-all shrink-0">
+            {offline.retryNow}
+          </button>
+        </div>
+      )}
+
+      {pendingCount > 0 && (queueStatus === 'running' || queueStatus === 'idle') && (
+        <div className={`${rowClassName} justify-start text-t-muted`}>
+          <span className="w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin shrink-0"></span>
+          {offline.running.replace('{count}', count)}
+        </div>
+      )}
+
+      {(finishedCount > 0 || droppedCount > 0) && (
+        <div className={rowClassName}>
+          <div className="space-y-1">
+            {finishedCount > 0 && <p className="text-t-text">{offline.finished.replace('{count}', String(finishedCount))}</p>}
+            {droppedCount > 0 && <p className="text-xs text-red-500">{offline.dropped.replace('{count}', String(droppedCount))}</p>}
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            {finishedCount > 0 && (
+              <button onClick={onViewHistory} className="font-semibold text-primary-600 active:scale-95 transition-all">
+                {offline.viewHistory}
+              </button>
+            )}
+            <button onClick={onDismiss} className="text-t-muted hover:text-t-text transition-colors">
+              {offline.dismiss}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
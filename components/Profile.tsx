@@ -1,36 +1,38 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { HistoryEntry, UserStats, AppColor, Theme } from '../types';
 import { getHistory, getStats, exportHistoryJSON, importHistoryJSON } from '../services/storageService';
-import { t } from '../services/translations';
+import { useI18n } from '../services/i18n';
+import { HistoryTable } from './HistoryTable';
 
 interface ProfileProps {
   colorScheme: AppColor;
   onColorSchemeChange: (color: AppColor) => void;
   onThemeChange: (theme: Theme) => void;
   historyUpdateTrigger: number;
+  onOpenEntry: (entry: HistoryEntry) => void;
 }
 
-export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTrigger }) => {
+export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTrigger, onOpenEntry }) => {
+  const { t, dateLocale } = useI18n();
   const [stats, setStats] = useState<UserStats | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
-  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [importCount, setImportCount] = useState(0); // Refreshes the history table after a restore
   const [pieSelection, setPieSelection] = useState<{label: string, count: number, color: string} | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const expansionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pieTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const profile = t.profile;
 
   useEffect(() => {
     loadData();
     return () => {
-      if (expansionTimerRef.current) clearTimeout(expansionTimerRef.current);
       if (pieTimerRef.current) clearTimeout(pieTimerRef.current);
     };
   }, [historyUpdateTrigger]); // Reload when trigger changes
 
-  const loadData = () => {
-    setStats(getStats());
-    setHistory(getHistory());
+  const loadData = async () => {
+    const [loadedStats, loadedHistory] = await Promise.all([getStats(), getHistory()]);
+    setStats(loadedStats);
+    setHistory(loadedHistory);
   };
 
   const handleBackup = () => {
@@ -46,7 +48,8 @@ export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTr
     if (file) {
       const result = await importHistoryJSON(file);
       if (result.success) {
-        loadData();
+        await loadData();
+        setImportCount(prev => prev + 1);
         // Apply imported settings if they exist
         if (result.theme) {
             onThemeChange(result.theme);
@@ -60,24 +63,6 @@ export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTr
     }
   };
 
-  const handleRowClick = (id: string) => {
-    if (expansionTimerRef.current) {
-      clearTimeout(expansionTimerRef.current);
-    }
-    
-    // If clicking already expanded, just reset timer
-    setExpandedId(id);
-
-    expansionTimerRef.current = setTimeout(() => {
-      setExpandedId(null);
-    }, 3000);
-  };
-
-  const formatDate = (timestamp: number) => {
-    // Always English locale
-    return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(new Date(timestamp));
-  };
-
   const handlePieClick = (label: string, count: number, color: string) => {
     if (pieTimerRef.current) clearTimeout(pieTimerRef.current);
     
@@ -132,7 +117,7 @@ export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTr
             const isFuture = loopDate.getTime() > today.getTime();
             
             // Format for tooltip
-            const tooltipDate = new Intl.DateTimeFormat('en-US', { 
+            const tooltipDate = new Intl.DateTimeFormat(dateLocale, { 
                 weekday: 'long', 
                 year: 'numeric', 
                 month: 'short', 
@@ -153,7 +138,7 @@ export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTr
     }
     
     return weeks;
-  }, [history]);
+  }, [history, dateLocale]);
 
   const getActivityColor = (count: number, _isFuture: boolean) => {
     // Show grid even for future days or empty days using a distinct visible grey
@@ -163,36 +148,6 @@ export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTr
     return 'bg-primary-600 dark:bg-primary-500';
   };
 
-  const getResultBadge = (entry: HistoryEntry) => {
-    if (entry.type === 'rewrite') {
-      return (
-        <div className="flex justify-center" title={`Rewrite: ${entry.rewriteStyle || 'Custom'}`}>
-          <span className="block w-2.5 h-2.5 rounded-full bg-purple-500 shadow-sm"></span>
-        </div>
-      );
-    }
-
-    if (entry.isPerfect) {
-      return (
-        <div className="flex justify-center">
-          <span className="block w-2.5 h-2.5 rounded-full bg-green-500 shadow-sm"></span>
-        </div>
-      );
-    }
-    if (entry.errorCount > 0) {
-      return (
-        <div className="flex justify-center">
-          <span className="block w-2.5 h-2.5 rounded-full bg-red-500 shadow-sm"></span>
-        </div>
-      );
-    }
-    return (
-      <div className="flex justify-center">
-        <span className="block w-2.5 h-2.5 rounded-full bg-yellow-500 shadow-sm"></span>
-      </div>
-    );
-  };
-
   // Pie Chart Data Calculation
   const grammarCount = history.filter(h => h.type === 'grammar' || !h.type).length;
   const rewriteCount = history.filter(h => h.type === 'rewrite').length;
@@ -364,56 +319,66 @@ export const Profile: React.FC<ProfileProps> = ({ onThemeChange, historyUpdateTr
           </div>
           <p className="text-xs text-t-muted mt-1">{profile.errorsDesc}</p>
         </div>
+
+        {/* Card 4: Corrections Reviewed */}
+        <div className="bg-t-surface p-6 rounded-2xl border border-t-border shadow-sm md:col-span-2">
+          <div className="flex items-center gap-3 mb-2">
+            <div className="text-green-600">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
+              </svg>
+            </div>
+            <h3 className="text-sm font-bold text-t-muted uppercase tracking-wider">{profile.correctionsApplied}</h3>
+          </div>
+          <div className="text-4xl font-serif text-t-text">
+            {stats.acceptedCorrections}
+          </div>
+          <p className="text-xs text-t-muted mt-1">
+            {profile.correctionsDesc.replace('{rejected}', String(stats.rejectedCorrections))}
+          </p>
+        </div>
       </div>
 
-      {/* History Table */}
-      <div className="bg-t-surface rounded-2xl border border-t-border overflow-hidden shadow-sm">
-        <div className="px-6 py-4 border-b border-t-border flex justify-between items-center">
-          <h3 className="font-bold text-t-text">{profile.recentHistory}</h3>
-          <span className="text-xs text-t-muted">{history.filter(h => h.type !== 'dictionary').length} {profile.entries}</span>
+      {/* Error Breakdown */}
+      <div className="bg-t-surface p-6 rounded-2xl border border-t-border shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-bold text-t-muted uppercase tracking-wider">{profile.errorBreakdown}</h3>
+          <span className="text-xs text-t-muted">{profile.breakdownDesc}</span>
         </div>
-        
-        {history.filter(h => h.type !== 'dictionary').length === 0 ? (
-          <div className="p-12 text-center text-t-muted">
-            <p>{profile.noHistory}</p>
-          </div>
+        {stats.categoryStats.length === 0 ? (
+          <p className="text-sm text-t-muted text-center py-4">{profile.noCategories}</p>
         ) : (
-          <div className="overflow-auto max-h-[23rem] scrollbar-thin scrollbar-thumb-t-border scrollbar-track-transparent">
-            <table className="w-full table-fixed">
-              <thead className="sticky top-0 z-10">
-                <tr className="bg-t-surface-alt text-xs text-t-muted uppercase tracking-wider border-b border-t-border shadow-sm">
-                  <th className="px-4 py-3 font-medium w-[20%] text-center whitespace-nowrap">{profile.cols.date}</th>
-                  <th className="px-4 py-3 font-medium w-[50%] text-center whitespace-nowrap">{profile.cols.text}</th>
-                  <th className="px-4 py-3 font-medium w-[30%] text-center whitespace-nowrap">{profile.cols.result}</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-t-border bg-t-surface">
-                {history
-                  .filter(entry => entry.type !== 'dictionary')
-                  .map((entry) => (
-                  <tr 
-                    key={entry.id} 
-                    onClick={() => handleRowClick(entry.id)}
-                    className={`active:bg-t-surface-alt/30 transition-colors cursor-pointer ${entry.id === expandedId ? 'bg-t-surface-alt/20' : ''}`}
-                  >
-                    <td className="px-2 py-4 text-sm text-t-muted text-center align-middle whitespace-nowrap">
-                      {formatDate(entry.timestamp)}
-                    </td>
-                    <td className="px-2 py-4 text-sm text-t-text font-serif text-center align-middle transition-all duration-300">
-                      <div className={`mx-auto transition-all duration-300 ${entry.id === expandedId ? 'whitespace-pre-wrap break-words w-full text-left' : 'truncate w-full text-center'}`}>
-                         {entry.id === expandedId ? (entry.fullText || entry.textSnippet) : entry.textSnippet}
-                      </div>
-                    </td>
-                    <td className="px-2 py-4 text-sm text-center align-middle">
-                       {getResultBadge(entry)}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+          <ul className="space-y-3">
+            {stats.categoryStats.map(stat => {
+              const maxCount = stats.categoryStats[0].count;
+              const trendClass = stat.trend === 'improving' ? 'text-green-600' : stat.trend === 'worsening' ? 'text-red-500' : 'text-t-muted';
+              const trendIcon = stat.trend === 'improving' ? '↓' : stat.trend === 'worsening' ? '↑' : '→';
+              return (
+                <li key={stat.category}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-t-text font-medium">{t.categories[stat.category]}</span>
+                    <span className="flex items-center gap-3">
+                      <span className={`text-xs font-medium ${trendClass}`} title={profile.trend[stat.trend]}>
+                        {trendIcon} {profile.trend[stat.trend]}
+                      </span>
+                      <span className="text-t-muted tabular-nums w-8 text-right">{stat.count}</span>
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-t-surface-alt overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-red-500/70"
+                      style={{ width: `${Math.max(4, Math.round((stat.count / maxCount) * 100))}%` }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
         )}
       </div>
+
+      {/* History Table */}
+      <HistoryTable historyUpdateTrigger={historyUpdateTrigger + importCount} onOpenEntry={onOpenEntry} />
       
       {/* Data Options Cards */}
       <div className="grid grid-cols-2 gap-6">
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppColor, ReviewCard, ReviewGrade } from '../types';
+import { getReviewDeck, updateReviewCard } from '../services/storageService';
+import { getDueCards, getQuizMode, isCorrectFix, scheduleReview } from '../services/spacedRepetition';
+import { useI18n } from '../services/i18n';
+
+interface ReviewProps {
+  colorScheme: AppColor;
+  historyUpdateTrigger: number;
+}
+
+// Cards per session, so a long backlog doesn't turn into one endless sitting
+const SESSION_SIZE = 20;
+
+const colorButtonStyles: Record<AppColor, string> = {
+  blue: 'bg-blue-600 active:bg-blue-700 text-white',
+  orange: 'bg-orange-500 active:bg-orange-600 text-white',
+  green: 'bg-green-600 active:bg-green-700 text-white',
+  indigo: 'bg-indigo-600 active:bg-indigo-700 text-white',
+  rose: 'bg-rose-500 active:bg-rose-600 text-white',
+  red: 'bg-red-600 active:bg-red-700 text-white',
+};
+
+export const Review: React.FC<ReviewProps> = ({ colorScheme, historyUpdateTrigger }) => {
+  const { t, dateLocale } = useI18n();
+  const [deck, setDeck] = useState<ReviewCard[]>([]);
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [position, setPosition] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<'correct' | 'incorrect' | null>(null);
+  const [sessionScore, setSessionScore] = useState({ correct: 0, total: 0 });
+  const review = t.review;
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviewDeck().then(loaded => {
+      if (cancelled) return;
+      setDeck(loaded);
+      setQueue(getDueCards(loaded).slice(0, SESSION_SIZE));
+      setPosition(0);
+      setResult(null);
+      setAnswer('');
+      setSessionScore({ correct: 0, total: 0 });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyUpdateTrigger]);
+
+  const card = queue[position] as ReviewCard | undefined;
+  const mode = card ? getQuizMode(card) : 'choose';
+
+  // Option order is derived from the card id so it doesn't reshuffle on every render
+  const options = useMemo(() => {
+    if (!card) return [];
+    const pair = [card.original, card.correction];
+    return card.id.charCodeAt(0) % 2 === 0 ? pair : pair.reverse();
+  }, [card]);
+
+  const nextDue = useMemo(() => {
+    const upcoming = deck.filter(c => c.dueAt > Date.now()).map(c => c.dueAt);
+    return upcoming.length > 0 ? Math.min(...upcoming) : null;
+  }, [deck]);
+
+  const submit = (isCorrect: boolean) => {
+    setResult(isCorrect ? 'correct' : 'incorrect');
+    setSessionScore(prev => ({ correct: prev.correct + (isCorrect ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  const grade = (value: ReviewGrade) => {
+    if (!card) return;
+    const updated = scheduleReview(card, value);
+    updateReviewCard(updated);
+    setDeck(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    setPosition(prev => prev + 1);
+    setResult(null);
+    setAnswer('');
+  };
+
+  const formatDue = (timestamp: number) =>
+    new Intl.DateTimeFormat(dateLocale, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(timestamp));
+
+  const renderHeader = () => (
+    <div className="flex items-center justify-between">
+      <h2 className="text-sm font-bold text-t-muted uppercase tracking-wider">{review.title}</h2>
+      <span className="text-xs text-t-muted">
+        {review.deckSize.replace('{count}', String(deck.length))}
+      </span>
+    </div>
+  );
+
+  // Nothing to review: either an empty deck or everything is scheduled for later
+  if (!card) {
+    const finishedSession = sessionScore.total > 0;
+    return (
+      <div className="space-y-6 animate-fade-in-up pb-32">
+        {renderHeader()}
+        <div className="bg-t-surface p-8 rounded-2xl border border-t-border shadow-sm text-center space-y-2">
+          <p className="text-lg font-serif text-t-text">
+            {deck.length === 0 ? review.emptyTitle : finishedSession ? review.sessionDone : review.caughtUp}
+          </p>
+          {finishedSession && (
+            <p className="text-sm text-t-muted">
+              {review.sessionScore
+                .replace('{correct}', String(sessionScore.correct))
+                .replace('{total}', String(sessionScore.total))}
+            </p>
+          )}
+          <p className="text-sm text-t-muted">
+            {deck.length === 0
+              ? review.emptyDesc
+              : nextDue
+                ? review.nextDue.replace('{date}', formatDue(nextDue))
+                : ''}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const blank = <span className="inline-block min-w-[3rem] border-b-2 border-t-muted/40 mx-1">&nbsp;</span>;
+
+  return (
+    <div className="space-y-6 animate-fade-in-up pb-32">
+      {renderHeader()}
+
+      <div className="bg-t-surface p-6 rounded-2xl border border-t-border shadow-sm space-y-6">
+        <div className="flex items-center justify-between text-xs text-t-muted">
+          <span className="font-bold uppercase tracking-wider">
+            {mode === 'choose' ? review.chooseTitle : review.fixTitle}
+          </span>
+          <span>{position + 1} / {queue.length}</span>
+        </div>
+
+        {/* Prompt */}
+        {mode === 'choose' ? (
+          <p className="text-xl leading-relaxed font-serif text-t-text">
+            {card.contextBefore}{blank}{card.contextAfter}
+          </p>
+        ) : (
+          <p className="text-xl leading-relaxed font-serif text-t-text">
+            {card.contextBefore}
+            <span className="text-t-err-text bg-t-err-bg border-b-2 border-red-500/30 rounded-t px-0.5">{card.original}</span>
+            {card.contextAfter}
+          </p>
+        )}
+
+        {/* Answer */}
+        {result === null && (
+          mode === 'choose' ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {options.map(option => (
+                <button
+                  key={option}
+                  onClick={() => submit(option === card.correction)}
+                  className="px-4 py-3 rounded-xl border border-t-border text-t-text font-serif text-lg active:bg-t-surface-alt active:scale-95 transition-all"
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => { e.preventDefault(); if (answer.trim()) submit(isCorrectFix(card, answer)); }}
+              className="space-y-3"
+            >
+              <textarea
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                placeholder={review.fixPlaceholder}
+                rows={3}
+                autoFocus
+                className="w-full p-4 bg-t-surface-alt border border-t-border rounded-xl text-lg font-serif text-t-text placeholder-t-muted/40 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+              <button
+                type="submit"
+                disabled={!answer.trim()}
+                className={`w-full py-3 rounded-xl font-medium transition-all active:scale-95 disabled:opacity-40 ${colorButtonStyles[colorScheme]}`}
+              >
+                {review.check}
+              </button>
+            </form>
+          )
+        )}
+
+        {/* Feedback & grading */}
+        {result !== null && (
+          <div className="space-y-4 animate-fade-in">
+            <div className={`p-4 rounded-xl border text-sm ${result === 'correct' ? 'border-green-500/30 bg-green-500/10' : 'border-red-500/30 bg-t-err-bg'}`}>
+              <p className={`font-bold mb-1 ${result === 'correct' ? 'text-green-600' : 'text-t-err-text'}`}>
+                {result === 'correct' ? review.correct : review.incorrect}
+              </p>
+              <p className="font-serif text-base text-t-text">
+                {card.contextBefore}<span className="font-semibold text-green-600">{card.correction}</span>{card.contextAfter}
+              </p>
+              {card.reason && <p className="mt-2 text-t-muted">{card.reason}</p>}
+            </div>
+
+            {result === 'correct' ? (
+              <div className="grid grid-cols-3 gap-3">
+                <button onClick={() => grade(3)} className="py-2.5 rounded-xl border border-t-border text-t-text font-medium active:scale-95 transition-all">
+                  {review.hard}
+                </button>
+                <button onClick={() => grade(4)} className={`py-2.5 rounded-xl font-medium active:scale-95 transition-all ${colorButtonStyles[colorScheme]}`}>
+                  {review.good}
+                </button>
+                <button onClick={() => grade(5)} className="py-2.5 rounded-xl border border-t-border text-t-text font-medium active:scale-95 transition-all">
+                  {review.easy}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => grade(1)}
+                className={`w-full py-3 rounded-xl font-medium active:scale-95 transition-all ${colorButtonStyles[colorScheme]}`}
+              >
+                {review.next}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,18 +1,29 @@
 
 import React, { useState } from 'react';
-import { RewriteAnalysis } from '../types';
-import { t } from '../services/translations';
+import { RewriteAnalysis, TargetLanguage } from '../types';
+import { useI18n } from '../services/i18n';
+import { LANGUAGES } from '../services/languages';
 import { InteractiveText } from './InteractiveText';
+import { ExplanationContent } from './ExplanationContent';
+import { CachedResultNotice } from './CachedResultNotice';
+import { ShareButton } from './ShareButton';
 
 interface RewriteResultProps {
   analysis: RewriteAnalysis;
+  language: TargetLanguage;
+  isStreaming?: boolean; // Partial result while the response is still arriving
+  cachedAt?: number; // Set when the result was served from the response cache
+  onRefresh?: () => void;
 }
 
-export const RewriteResult: React.FC<RewriteResultProps> = ({ analysis }) => {
+export const RewriteResult: React.FC<RewriteResultProps> = ({ analysis, language, isStreaming = false, cachedAt, onRefresh }) => {
+  const { t } = useI18n();
   const [copied, setCopied] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const results = t.results;
   const tStyles = t.styles;
+  // While streaming, the explanation card waits until its first words have arrived
+  const hasExplanation = analysis.explanation.overview.length > 0 || analysis.explanation.improvements.length > 0;
 
   const handleCopy = () => {
     navigator.clipboard.writeText(analysis.rewrittenText);
@@ -33,8 +44,7 @@ export const RewriteResult: React.FC<RewriteResultProps> = ({ analysis }) => {
     utterance.onend = () => setIsSpeaking(false);
     utterance.onerror = () => setIsSpeaking(false);
     
-    // Default to English
-    utterance.lang = 'en-US';
+    utterance.lang = LANGUAGES[language].speechLocale;
     
     setIsSpeaking(true);
     window.speechSynthesis.speak(utterance);
@@ -55,7 +65,11 @@ export const RewriteResult: React.FC<RewriteResultProps> = ({ analysis }) => {
                 </h3>
             </div>
             
-            <div className="flex items-center gap-2 ml-auto">
+            {isStreaming && (
+              <span className="w-4 h-4 m-2 ml-auto border-2 border-purple-500/30 border-t-purple-500 rounded-full animate-spin" title={results.generating}></span>
+            )}
+
+            <div className={`flex items-center gap-2 ml-auto ${isStreaming ? 'hidden' : ''}`}>
               <button 
                   onClick={handleListen}
                   className="text-xs flex items-center justify-center text-purple-700 hover:text-purple-800 font-medium p-2 transition-all opacity-70 hover:opacity-100"
@@ -88,8 +102,14 @@ export const RewriteResult: React.FC<RewriteResultProps> = ({ analysis }) => {
                     </svg>
                   )}
                 </button>
+
+                <ShareButton text={analysis.rewrittenText} className="text-purple-700 hover:text-purple-800" />
             </div>
           </div>
+
+          {cachedAt !== undefined && onRefresh && (
+            <CachedResultNotice cachedAt={cachedAt} onRefresh={onRefresh} />
+          )}
           
           <div className="p-8">
             <InteractiveText 
@@ -102,27 +122,18 @@ export const RewriteResult: React.FC<RewriteResultProps> = ({ analysis }) => {
       </div>
 
       {/* 2. Style Explanation Card */}
-      <div className="bg-t-surface rounded-2xl border border-t-border overflow-hidden">
+      <div className={`bg-t-surface rounded-2xl border border-t-border overflow-hidden ${isStreaming && !hasExplanation ? 'hidden' : ''}`}>
         <div className="px-6 py-4 flex items-center gap-2 border-b border-t-border">
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 text-purple-500">
             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a.75.75 0 000 1.5h.253a.25.25 0 01.244.304l-.459 2.066A1.75 1.75 0 0010.747 15H11a.75.75 0 000-1.5h-.253a.25.25 0 01-.244-.304l.459-2.066A1.75 1.75 0 009.253 9H9z" clipRule="evenodd" />
           </svg>
           <h2 className="text-xs font-bold text-t-muted uppercase tracking-widest">{results.styleExplanation}</h2>
         </div>
-        <div className="p-6">
-          <p className="text-t-text leading-relaxed font-medium mb-4">
-            {analysis.explanation.overview}
-          </p>
-          
-          <ul className="space-y-3">
-            {analysis.explanation.improvements.map((item, index) => (
-              <li key={index} className="flex items-start gap-3 text-sm text-t-muted leading-relaxed">
-                <span className="flex-shrink-0 w-1.5 h-1.5 mt-2 rounded-full bg-purple-400"></span>
-                <span>{item}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
+        <ExplanationContent
+          explanation={analysis.explanation}
+          explanationEnglish={analysis.explanationEnglish}
+          bulletClassName="bg-purple-400"
+        />
       </div>
 
     </div>
@@ -1,23 +1,49 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { t } from '../services/translations';
-import { saveApiKey, getStoredApiKey, removeApiKey } from '../services/storageService';
-import { AppColor } from '../types';
+import { getLanguageName } from '../services/translations';
+import { UI_LANGUAGES, useI18n } from '../services/i18n';
+import { saveApiKey, getStoredApiKey, removeApiKey, getProviderSettings, saveProviderSettings } from '../services/storageService';
+import { clearResponseCache } from '../services/responseCache';
+import { UsagePanel } from './UsagePanel';
+import { AppColor, AIProviderId, AIProviderSettings, AppLanguage, TargetLanguage } from '../types';
+import { LANGUAGES, NATIVE_LANGUAGES, TARGET_LANGUAGES } from '../services/languages';
 
 interface SettingsPageProps {
   colorScheme: AppColor;
   onColorSchemeChange: (color: AppColor) => void;
+  targetLanguage: TargetLanguage;
+  onTargetLanguageChange: (language: TargetLanguage) => void;
+  explanationLanguage: AppLanguage;
+  onExplanationLanguageChange: (language: AppLanguage) => void;
+  showEnglishExplanations: boolean;
+  onShowEnglishExplanationsChange: (enabled: boolean) => void;
+  uiLanguage: AppLanguage;
+  onUiLanguageChange: (language: AppLanguage) => void;
 }
 
 export const SettingsPage: React.FC<SettingsPageProps> = ({ 
     colorScheme,
-    onColorSchemeChange
+    onColorSchemeChange,
+    targetLanguage,
+    onTargetLanguageChange,
+    explanationLanguage,
+    onExplanationLanguageChange,
+    showEnglishExplanations,
+    onShowEnglishExplanationsChange,
+    uiLanguage,
+    onUiLanguageChange
 }) => {
+  const { t } = useI18n();
   const [apiKey, setApiKey] = useState('');
   const [isSaved, setIsSaved] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<AIProviderSettings>(getProviderSettings);
+  const [isProviderSaved, setIsProviderSaved] = useState(false);
+  const [isCacheCleared, setIsCacheCleared] = useState(false);
   const settings = t.settings;
 
+  const providerIds: AIProviderId[] = ['gemini', 'openai', 'mock'];
+
   const colors: { code: AppColor, label: string, bgClass: string }[] = [
     { code: 'blue', label: 'Blue', bgClass: 'bg-blue-600' },
     { code: 'orange', label: 'Orange', bgClass: 'bg-orange-500' },
@@ -43,6 +69,32 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({
     }
   };
 
+  const updateProviderSettings = (changes: Partial<AIProviderSettings>) => {
+    setProviderSettings(prev => ({ ...prev, ...changes }));
+    setIsProviderSaved(false);
+  };
+
+  const handleSaveProvider = () => {
+    saveProviderSettings({
+      ...providerSettings,
+      openaiBaseUrl: providerSettings.openaiBaseUrl.trim(),
+      openaiModel: providerSettings.openaiModel.trim(),
+      openaiApiKey: providerSettings.openaiApiKey?.trim() || undefined
+    });
+    setIsProviderSaved(true);
+    setTimeout(() => {
+        setIsProviderSaved(false);
+    }, 2000);
+  };
+
+  const handleClearCache = async () => {
+    await clearResponseCache();
+    setIsCacheCleared(true);
+    setTimeout(() => {
+        setIsCacheCleared(false);
+    }, 2000);
+  };
+
   const handleRemove = () => {
     removeApiKey();
     setApiKey('');
@@ -86,9 +138,197 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({
                     ))}
                 </div>
             </div>
+
+            <div className="space-y-3 mt-6">
+                <label className="text-xs font-bold text-t-text uppercase tracking-wider block">
+                {t.profile.language}
+                </label>
+                <div className="bg-t-surface-alt p-1 rounded-xl border border-t-border grid grid-cols-3 gap-1">
+                    {UI_LANGUAGES.map(code => (
+                        <button
+                            key={code}
+                            onClick={() => onUiLanguageChange(code)}
+                            lang={code}
+                            className={`py-2 px-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                                uiLanguage === code
+                                    ? 'bg-t-surface text-t-text shadow-sm ring-1 ring-t-border'
+                                    : 'text-t-muted hover:text-t-text'
+                            }`}
+                        >
+                            {getLanguageName(code)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+      </div>
+
+      {/* Target Language Card */}
+      <div className="bg-t-surface w-full rounded-2xl shadow-sm border border-t-border overflow-hidden">
+        <div className="px-6 py-4 border-b border-t-border flex justify-between items-center bg-t-surface-alt">
+          <h2 className="text-lg font-bold text-t-text flex items-center gap-2">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-t-muted">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 21l5.25-11.25L21 21m-9-3h7.5M3 5.621a48.474 48.474 0 016-.371m0 0c1.12 0 2.233.038 3.334.114M9 5.25V3m3.334 2.364C11.176 10.658 7.69 15.08 3 17.502m9.334-12.138c.896.061 1.785.147 2.666.257m-4.589 8.495a18.023 18.023 0 01-3.827-5.802" />
+            </svg>
+            {settings.targetLanguageTitle}
+          </h2>
+        </div>
+
+        <div className="p-6 space-y-4">
+            <p className="text-sm text-t-muted leading-relaxed">
+                {settings.targetLanguageDesc}
+            </p>
+
+            <div className="bg-t-surface-alt p-1 rounded-xl border border-t-border grid grid-cols-3 gap-1">
+                {TARGET_LANGUAGES.map(code => (
+                    <button
+                        key={code}
+                        onClick={() => onTargetLanguageChange(code)}
+                        className={`py-2 px-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                            targetLanguage === code
+                                ? 'bg-t-surface text-t-text shadow-sm ring-1 ring-t-border'
+                                : 'text-t-muted hover:text-t-text'
+                        }`}
+                    >
+                        {LANGUAGES[code].nativeName}
+                    </button>
+                ))}
+            </div>
+
+            <div className="pt-4 border-t border-t-border space-y-3">
+                <label className="text-xs font-bold text-t-text uppercase tracking-wider block">
+                    {settings.nativeLanguageLabel}
+                </label>
+                <p className="text-sm text-t-muted leading-relaxed">
+                    {settings.nativeLanguageDesc}
+                </p>
+                <div className="bg-t-surface-alt p-1 rounded-xl border border-t-border grid grid-cols-3 gap-1">
+                    {NATIVE_LANGUAGES.map(code => (
+                        <button
+                            key={code}
+                            onClick={() => onExplanationLanguageChange(code)}
+                            className={`py-2 px-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                                explanationLanguage === code
+                                    ? 'bg-t-surface text-t-text shadow-sm ring-1 ring-t-border'
+                                    : 'text-t-muted hover:text-t-text'
+                            }`}
+                        >
+                            {getLanguageName(code)}
+                        </button>
+                    ))}
+                </div>
+
+                {explanationLanguage !== 'en' && (
+                    <button
+                        role="switch"
+                        aria-checked={showEnglishExplanations}
+                        onClick={() => onShowEnglishExplanationsChange(!showEnglishExplanations)}
+                        className="w-full flex items-center justify-between gap-4 py-2 text-left animate-fade-in"
+                    >
+                        <span className="text-sm text-t-text">{settings.showEnglish}</span>
+                        <span className={`relative shrink-0 w-10 h-6 rounded-full transition-colors ${showEnglishExplanations ? 'bg-primary-600' : 'bg-t-border'}`}>
+                            <span className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white shadow transition-transform ${showEnglishExplanations ? 'translate-x-4' : ''}`} />
+                        </span>
+                    </button>
+                )}
+            </div>
+        </div>
+      </div>
+
+      {/* AI Provider Card */}
+      <div className="bg-t-surface w-full rounded-2xl shadow-sm border border-t-border overflow-hidden">
+        <div className="px-6 py-4 border-b border-t-border flex justify-between items-center bg-t-surface-alt">
+          <h2 className="text-lg font-bold text-t-text flex items-center gap-2">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-t-muted">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 3v1.5M4.5 8.25H3m18 0h-1.5M4.5 12H3m18 0h-1.5m-15 3.75H3m18 0h-1.5M8.25 19.5V21M12 3v1.5m0 15V21m3.75-18v1.5m0 15V21m-9-1.5h10.5a2.25 2.25 0 002.25-2.25V6.75a2.25 2.25 0 00-2.25-2.25H6.75A2.25 2.25 0 004.5 6.75v10.5a2.25 2.25 0 002.25 2.25zm.75-12h9v9h-9v-9z" />
+            </svg>
+            {settings.providerTitle}
+          </h2>
+        </div>
+
+        <div className="p-6 space-y-4">
+            <p className="text-sm text-t-muted leading-relaxed">
+                {settings.providerDesc}
+            </p>
+
+            <div className="bg-t-surface-alt p-1 rounded-xl border border-t-border grid grid-cols-3 gap-1">
+                {providerIds.map(id => (
+                    <button
+                        key={id}
+                        onClick={() => updateProviderSettings({ provider: id })}
+                        className={`py-2 px-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                            providerSettings.provider === id
+                                ? 'bg-t-surface text-t-text shadow-sm ring-1 ring-t-border'
+                                : 'text-t-muted hover:text-t-text'
+                        }`}
+                    >
+                        {settings.providers[id]}
+                    </button>
+                ))}
+            </div>
+
+            <p className="text-xs text-t-muted">
+                {settings.providerHints[providerSettings.provider]}
+            </p>
+
+            {providerSettings.provider === 'openai' && (
+                <div className="space-y-3 animate-fade-in">
+                    <div className="space-y-1">
+                        <label className="text-xs font-bold text-t-text uppercase tracking-wider block">{settings.baseUrlLabel}</label>
+                        <input
+                            type="url"
+                            value={providerSettings.openaiBaseUrl}
+                            onChange={(e) => updateProviderSettings({ openaiBaseUrl: e.target.value })}
+                            placeholder="http://localhost:11434/v1"
+                            className="w-full px-4 py-3 bg-t-surface border border-t-border rounded-lg text-t-text focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono text-sm"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs font-bold text-t-text uppercase tracking-wider block">{settings.modelLabel}</label>
+                        <input
+                            type="text"
+                            value={providerSettings.openaiModel}
+                            onChange={(e) => updateProviderSettings({ openaiModel: e.target.value })}
+                            className="w-full px-4 py-3 bg-t-surface border border-t-border rounded-lg text-t-text focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono text-sm"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs font-bold text-t-text uppercase tracking-wider block">{settings.providerKeyLabel}</label>
+                        <input
+                            type="password"
+                            value={providerSettings.openaiApiKey || ''}
+                            onChange={(e) => updateProviderSettings({ openaiApiKey: e.target.value })}
+                            className="w-full px-4 py-3 bg-t-surface border border-t-border rounded-lg text-t-text focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono text-sm"
+                        />
+                    </div>
+                </div>
+            )}
+
+            <button
+                onClick={handleSaveProvider}
+                disabled={providerSettings.provider === 'openai' && !providerSettings.openaiBaseUrl.trim()}
+                className={`w-full py-2.5 rounded-lg font-medium text-sm transition-all flex items-center justify-center gap-2
+                    ${isProviderSaved
+                        ? 'bg-green-500 text-white'
+                        : 'bg-t-text text-t-surface active:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed'
+                    }
+                `}
+            >
+                {isProviderSaved ? settings.providerSaved : settings.saveProvider}
+            </button>
+
+            <button
+                onClick={handleClearCache}
+                className="w-full text-xs text-t-muted hover:text-t-text transition-colors"
+            >
+                {isCacheCleared ? settings.cacheCleared : settings.clearCache}
+            </button>
         </div>
       </div>
 
+      {/* Usage Card */}
+      <UsagePanel />
+
       {/* API Configuration Card */}
       <div className="bg-t-surface w-full rounded-2xl shadow-sm border border-t-border overflow-hidden">
         <div className="px-6 py-4 border-b border-t-border flex justify-between items-center bg-t-surface-alt">
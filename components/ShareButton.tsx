@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { useI18n } from '../services/i18n';
+import { shareText } from '../services/share';
+
+interface ShareButtonProps {
+  text: string;
+  className: string; // Colour classes matching the card's other header actions
+}
+
+// Opens the native share sheet; where there is none the text is copied instead
+export const ShareButton: React.FC<ShareButtonProps> = ({ text, className }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    const outcome = await shareText(text, 'GrammarGuard');
+    if (outcome === 'copied') {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleShare}
+      className={`text-xs flex items-center justify-center font-medium p-2 transition-all opacity-70 active:opacity-100 active:scale-95 ${className}`}
+      title={copied ? t.results.sharedCopied : t.results.share}
+      aria-label={t.results.share}
+    >
+      {copied ? (
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+          <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
+        </svg>
+      ) : (
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M7.217 10.907a2.25 2.25 0 100 2.186m0-2.186c.18.324.283.696.283 1.093s-.103.77-.283 1.093m0-2.186l9.566-5.314m-9.566 7.5l9.566 5.314m0 0a2.25 2.25 0 103.935 2.186 2.25 2.25 0 00-3.935-2.186zm0-12.814a2.25 2.25 0 103.933-2.185 2.25 2.25 0 00-3.933 2.185z" />
+        </svg>
+      )}
+    </button>
+  );
+};
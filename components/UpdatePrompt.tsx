@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { useI18n } from '../services/i18n';
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+// Shown once a new release has installed in the background; it only takes over when accepted
+export const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => {
+  const { t } = useI18n();
+  const [isReloading, setIsReloading] = useState(false);
+
+  const handleReload = () => {
+    setIsReloading(true);
+    onReload();
+  };
+
+  return (
+    <div role="status" className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl border border-primary-500/30 bg-t-surface-alt text-sm animate-fade-in">
+      <span className="text-t-text">{t.update.available}</span>
+      <div className="flex items-center gap-3 shrink-0">
+        <button
+          onClick={handleReload}
+          disabled={isReloading}
+          className="flex items-center gap-2 font-semibold text-primary-600 active:scale-95 transition-all disabled:opacity-60"
+        >
+          {isReloading && <span className="w-3.5 h-3.5 border-2 border-primary-500 border-t-transparent rounded-full animate-spin"></span>}
+          {t.update.reload}
+        </button>
+        <button onClick={onDismiss} disabled={isReloading} className="text-t-muted hover:text-t-text transition-colors">
+          {t.update.later}
+        </button>
+      </div>
+    </div>
+  );
+};
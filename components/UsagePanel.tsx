@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../services/i18n';
+import { UsageSummary, UsageTotals, getUsageSummary } from '../services/usage';
+import { saveDailyBudget } from '../services/storageService';
+
+// Settings card with today's and this month's AI usage, and the optional daily budget
+export const UsagePanel: React.FC = () => {
+  const { t, dateLocale } = useI18n();
+  const usage = t.usage;
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [isBudgetSaved, setIsBudgetSaved] = useState(false);
+
+  const loadSummary = async () => {
+    const next = await getUsageSummary();
+    setSummary(next);
+    setBudgetInput(next.dailyBudget !== null ? String(next.dailyBudget) : '');
+  };
+
+  useEffect(() => {
+    loadSummary();
+  }, []);
+
+  const formatCost = (value: number) =>
+    new Intl.NumberFormat(dateLocale, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 }).format(value);
+
+  const formatCount = (value: number) => new Intl.NumberFormat(dateLocale).format(value);
+
+  const handleSaveBudget = async () => {
+    const value = parseFloat(budgetInput.replace(',', '.'));
+    saveDailyBudget(Number.isFinite(value) && value > 0 ? value : null);
+    await loadSummary();
+    setIsBudgetSaved(true);
+    setTimeout(() => {
+        setIsBudgetSaved(false);
+    }, 2000);
+  };
+
+  const handleRemoveBudget = async () => {
+    saveDailyBudget(null);
+    await loadSummary();
+  };
+
+  const renderColumn = (label: string, totals: UsageTotals) => (
+    <div className="bg-t-surface-alt rounded-xl border border-t-border p-4 space-y-2">
+      <h3 className="text-xs font-bold text-t-muted uppercase tracking-wider">{label}</h3>
+      <p className="text-2xl font-bold text-t-text">{formatCost(totals.cost)}</p>
+      <dl className="text-xs text-t-muted space-y-1">
+        {([
+          [usage.requests, totals.requests],
+          [usage.calls, totals.calls],
+          [usage.failures, totals.failures],
+          [usage.inputTokens, totals.inputTokens],
+          [usage.outputTokens, totals.outputTokens]
+        ] as [string, number][]).map(([name, value]) => (
+          <div key={name} className="flex justify-between gap-2">
+            <dt>{name}</dt>
+            <dd className="font-mono text-t-text">{formatCount(value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+
+  const budget = summary?.dailyBudget ?? null;
+  const budgetUsed = summary && budget ? Math.min(summary.today.cost / budget, 1) : 0;
+
+  return (
+    <div className="bg-t-surface w-full rounded-2xl shadow-sm border border-t-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-t-border flex justify-between items-center bg-t-surface-alt">
+        <h2 className="text-lg font-bold text-t-text flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-t-muted">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
+          </svg>
+          {usage.title}
+        </h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-t-muted leading-relaxed">
+          {usage.desc}
+        </p>
+
+        {summary && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {renderColumn(usage.today, summary.today)}
+            {renderColumn(usage.month, summary.month)}
+          </div>
+        )}
+
+        {summary && summary.month.unpriced > 0 && (
+          <p className="text-xs text-t-muted">
+            {usage.unpriced.replace('{count}', formatCount(summary.month.unpriced))}
+          </p>
+        )}
+
+        <div className="space-y-2 pt-2">
+          <label className="text-xs font-bold text-t-text uppercase tracking-wider block">{usage.budgetLabel}</label>
+          <p className="text-xs text-t-muted">{usage.budgetDesc}</p>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              inputMode="decimal"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="1.00"
+              className="flex-1 px-4 py-2.5 bg-t-surface border border-t-border rounded-lg text-t-text focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono text-sm"
+            />
+            <button
+              onClick={handleSaveBudget}
+              className={`px-4 py-2.5 rounded-lg font-medium text-sm transition-all ${
+                isBudgetSaved ? 'bg-green-500 text-white' : 'bg-t-text text-t-surface active:opacity-90'
+              }`}
+            >
+              {isBudgetSaved ? usage.budgetSaved : usage.saveBudget}
+            </button>
+          </div>
+
+          {summary && budget !== null && (
+            <div className="space-y-1">
+              <div className="h-2 rounded-full bg-t-surface-alt overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all ${budgetUsed >= 1 ? 'bg-red-500' : 'bg-primary-500'}`}
+                  style={{ width: `${budgetUsed * 100}%` }}
+                ></div>
+              </div>
+              <div className="flex justify-between items-center text-xs text-t-muted">
+                <span>
+                  {usage.budgetProgress
+                    .replace('{spent}', formatCost(summary.today.cost))
+                    .replace('{budget}', formatCost(budget))}
+                </span>
+                <button onClick={handleRemoveBudget} className="hover:text-t-text transition-colors">
+                  {usage.removeBudget}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
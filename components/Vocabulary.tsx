@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VocabularyEntry } from '../types';
+import { getVocabulary, removeVocabularyWord } from '../services/storageService';
+import { collectTags, filterVocabulary } from '../services/vocabulary';
+import { LANGUAGES } from '../services/languages';
+import { useI18n } from '../services/i18n';
+
+interface VocabularyProps {
+  historyUpdateTrigger: number;
+  onOpenWord: (entry: VocabularyEntry) => void;
+}
+
+export const Vocabulary: React.FC<VocabularyProps> = ({ historyUpdateTrigger, onOpenWord }) => {
+  const { t } = useI18n();
+  const [words, setWords] = useState<VocabularyEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const vocabulary = t.vocabulary;
+
+  useEffect(() => {
+    let cancelled = false;
+    getVocabulary().then(loaded => {
+      if (!cancelled) setWords(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyUpdateTrigger]);
+
+  const tags = useMemo(() => collectTags(words), [words]);
+  const visibleWords = useMemo(() => filterVocabulary(words, query, activeTag), [words, query, activeTag]);
+
+  const handleRemove = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    removeVocabularyWord(id);
+    setWords(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  const getSummary = (entry: VocabularyEntry) => {
+    const first = entry.entries[0];
+    const meaning = first?.meanings[0];
+    return {
+      phonetic: first?.phonetic || first?.phonetics.find(p => p.text)?.text,
+      partOfSpeech: meaning?.partOfSpeech,
+      definition: meaning?.definitions[0]?.definition
+    };
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in-up pb-32">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-bold text-t-muted uppercase tracking-wider">{vocabulary.title}</h2>
+        <span className="text-xs text-t-muted">{vocabulary.wordCount.replace('{count}', String(words.length))}</span>
+      </div>
+
+      {/* Search & tag filter */}
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={vocabulary.searchPlaceholder}
+          className="w-full px-4 py-3 bg-t-surface border border-t-border rounded-2xl text-t-text placeholder-t-muted/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 shadow-sm"
+        />
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setActiveTag(null)}
+              className={`px-3 py-1 text-xs font-medium rounded-full border transition-all active:scale-95 ${activeTag === null ? 'bg-t-text text-t-surface border-t-text' : 'border-t-border text-t-muted'}`}
+            >
+              {vocabulary.allTags}
+            </button>
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`px-3 py-1 text-xs font-medium rounded-full border transition-all active:scale-95 ${activeTag === tag ? 'bg-t-text text-t-surface border-t-text' : 'border-t-border text-t-muted'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Word list */}
+      <div className="bg-t-surface rounded-2xl border border-t-border overflow-hidden shadow-sm">
+        {visibleWords.length === 0 ? (
+          <div className="p-8 text-center text-t-muted text-sm">
+            {words.length === 0 ? vocabulary.empty : vocabulary.noMatches}
+          </div>
+        ) : (
+          <ul className="divide-y divide-t-border">
+            {visibleWords.map(entry => {
+              const summary = getSummary(entry);
+              return (
+                <li
+                  key={entry.id}
+                  onClick={() => onOpenWord(entry)}
+                  className="p-4 cursor-pointer active:bg-t-surface-alt/30 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline gap-2 flex-wrap">
+                        <span className="text-xl font-serif font-bold text-t-text capitalize">{entry.word}</span>
+                        {summary.phonetic && <span className="text-sm text-primary-500">{summary.phonetic}</span>}
+                        {summary.partOfSpeech && <span className="text-xs italic text-t-muted">{summary.partOfSpeech}</span>}
+                        <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded border border-t-border text-t-muted" title={LANGUAGES[entry.language].nativeName}>{entry.language}</span>
+                      </div>
+                      {summary.definition && (
+                        <p className="text-sm text-t-text mt-1 line-clamp-2">{summary.definition}</p>
+                      )}
+                      {entry.sourceSentence && (
+                        <p className="text-xs text-t-muted italic mt-1 truncate">"{entry.sourceSentence}"</p>
+                      )}
+                      {entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {entry.tags.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-primary-500/10 text-primary-600">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={(e) => handleRemove(e, entry.id)}
+                      className="p-2 text-t-muted active:text-red-500 transition-colors rounded-full"
+                      title={vocabulary.removeWord}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                      </svg>
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
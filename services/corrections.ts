@@ -0,0 +1,57 @@
+import { CorrectionDecision, CorrectionDecisions, Segment } from "../types";
+
+// Per-segment accept / reject / edit decisions and the working text they produce.
+
+const isCritical = (segment: Segment) => segment.severity === 'critical' || !segment.severity;
+
+export const resolveSegmentText = (segment: Segment, decision?: CorrectionDecision): string => {
+  if (!segment.isError || !decision) return segment.text;
+
+  switch (decision.status) {
+    case 'accepted':
+      return segment.correction ?? segment.text;
+    case 'edited':
+      return decision.text ?? segment.text;
+    case 'rejected':
+    default:
+      return segment.text;
+  }
+};
+
+// Undecided corrections keep the learner's original wording.
+export const buildWorkingText = (segments: Segment[], decisions: CorrectionDecisions): string =>
+  segments.map((segment, index) => resolveSegmentText(segment, decisions[index])).join('');
+
+// Accepts every correction of the given severity, leaving hand edits untouched.
+export const acceptAllBySeverity = (
+  segments: Segment[],
+  decisions: CorrectionDecisions,
+  severity: 'critical' | 'suggestion'
+): CorrectionDecisions => {
+  const next = { ...decisions };
+
+  segments.forEach((segment, index) => {
+    if (!segment.isError || segment.correction === undefined) return;
+    if ((severity === 'critical') !== isCritical(segment)) return;
+    if (next[index]?.status === 'edited') return;
+    next[index] = { status: 'accepted' };
+  });
+
+  return next;
+};
+
+export const summarizeDecisions = (segments: Segment[], decisions: CorrectionDecisions) => {
+  let accepted = 0;
+  let rejected = 0;
+  let pending = 0;
+
+  segments.forEach((segment, index) => {
+    if (!segment.isError) return;
+    const status = decisions[index]?.status;
+    if (status === 'accepted' || status === 'edited') accepted++;
+    else if (status === 'rejected') rejected++;
+    else pending++;
+  });
+
+  return { accepted, rejected, pending };
+};
@@ -0,0 +1,249 @@
+import { APP_VERSION } from "./version";
+import { DEFAULT_TARGET_LANGUAGE } from "./languages";
+
+// IndexedDB access for everything that grows over time (history, review deck, vocabulary,
+// cached AI responses, API usage, checks queued offline, app state). Small settings (theme,
+// API key, provider) stay in localStorage because they are needed synchronously at startup.
+
+const DB_NAME = 'grammarguard';
+
+export const HISTORY_STORE = 'history';
+export const REVIEW_DECK_STORE = 'reviewDeck';
+export const VOCABULARY_STORE = 'vocabulary';
+export const META_STORE = 'meta'; // Key-value records (app state)
+export const RESPONSE_CACHE_STORE = 'responseCache';
+export const USAGE_STORE = 'usage';
+export const PENDING_CHECKS_STORE = 'pendingChecks';
+
+export type StoreName =
+  | typeof HISTORY_STORE
+  | typeof REVIEW_DECK_STORE
+  | typeof VOCABULARY_STORE
+  | typeof META_STORE
+  | typeof RESPONSE_CACHE_STORE
+  | typeof USAGE_STORE
+  | typeof PENDING_CHECKS_STORE;
+
+// localStorage keys the pre-IndexedDB versions of the app wrote to
+const LEGACY_KEYS = {
+  history: 'grammarguard_history',
+  appState: 'grammarguard_app_state',
+  reviewDeck: 'grammarguard_review_deck',
+  vocabulary: 'grammarguard_vocabulary',
+  version: 'grammarguard_version'
+};
+
+const SCHEMA_APP_VERSION_KEY = 'schemaAppVersion';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Schema migration chain. Entry N upgrades a database from version N-1 to N; on upgrade every
+// step above the stored version runs in order inside the same versionchange transaction.
+// Never edit a released step: append a new one instead.
+const MIGRATIONS: Migration[] = [
+  // 1: history with type/date indexes, and a key-value store for app state
+  (db) => {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+    history.createIndex('type', 'type');
+    history.createIndex('type_timestamp', ['type', 'timestamp']);
+    db.createObjectStore(META_STORE);
+  },
+  // 2: review deck and vocabulary notebook; entries from before `type` existed are grammar checks
+  (db, tx) => {
+    const deck = db.createObjectStore(REVIEW_DECK_STORE, { keyPath: 'id' });
+    deck.createIndex('dueAt', 'dueAt');
+    const vocabulary = db.createObjectStore(VOCABULARY_STORE, { keyPath: 'id' });
+    vocabulary.createIndex('word', 'wordKey', { unique: true });
+    vocabulary.createIndex('updatedAt', 'updatedAt');
+
+    const cursorRequest = tx.objectStore(HISTORY_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (!cursor.value.type) cursor.update({ ...cursor.value, type: 'grammar' });
+      cursor.continue();
+    };
+  },
+  // 3: cache of AI responses, evicted by age and least recent use
+  (db) => {
+    const cache = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+    cache.createIndex('createdAt', 'createdAt');
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  },
+  // 4: one record per AI operation, for the usage dashboard and daily budget
+  (db) => {
+    const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+    usage.createIndex('timestamp', 'timestamp');
+  },
+  // 5: grammar checks submitted while offline, run in order once the connection is back
+  (db) => {
+    const pending = db.createObjectStore(PENDING_CHECKS_STORE, { keyPath: 'id' });
+    pending.createIndex('createdAt', 'createdAt');
+  },
+  // 6: saved words are unique per language, not per spelling; words saved before languages
+  // existed came from the English dictionary
+  (_db, tx) => {
+    const cursorRequest = tx.objectStore(VOCABULARY_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const language = cursor.value.language || DEFAULT_TARGET_LANGUAGE;
+      cursor.update({ ...cursor.value, language, wordKey: `${language}:${String(cursor.value.word).trim().toLowerCase()}` });
+      cursor.continue();
+    };
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Rows from localStorage were written by older versions and are only trusted to be objects
+type LegacyRow = Record<string, unknown>;
+
+const isLegacyRow = (value: unknown): value is LegacyRow =>
+  typeof value === 'object' && value !== null && !!(value as LegacyRow).id;
+
+const readLegacyArray = (key: string): unknown[] => {
+  try {
+    const item = localStorage.getItem(key);
+    const parsed = item ? JSON.parse(item) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(`Failed to read legacy ${key}:`, error);
+    return [];
+  }
+};
+
+// One-time copy of the localStorage blobs into a freshly created database. Runs inside the
+// upgrade transaction so it either fully lands or not at all; the old keys are only removed
+// once that transaction has committed.
+const migrateFromLocalStorage = (tx: IDBTransaction) => {
+  const history = readLegacyArray(LEGACY_KEYS.history);
+  const reviewDeck = readLegacyArray(LEGACY_KEYS.reviewDeck);
+  const vocabulary = readLegacyArray(LEGACY_KEYS.vocabulary);
+
+  history
+    .filter(isLegacyRow)
+    .forEach(entry => tx.objectStore(HISTORY_STORE).put({ ...entry, type: entry.type || 'grammar' }));
+  reviewDeck.filter(isLegacyRow).forEach(card => tx.objectStore(REVIEW_DECK_STORE).put(card));
+
+  // The unique word index would abort the whole migration on a duplicate, so dedupe first
+  const seenWords = new Set<string>();
+  vocabulary
+    .filter(isLegacyRow)
+    .filter(entry => !!entry.word)
+    .forEach(entry => {
+      const wordKey = `${DEFAULT_TARGET_LANGUAGE}:${String(entry.word).trim().toLowerCase()}`;
+      if (seenWords.has(wordKey)) return;
+      seenWords.add(wordKey);
+      tx.objectStore(VOCABULARY_STORE).put({ ...entry, language: DEFAULT_TARGET_LANGUAGE, wordKey });
+    });
+
+  try {
+    const appState = localStorage.getItem(LEGACY_KEYS.appState);
+    if (appState) tx.objectStore(META_STORE).put(JSON.parse(appState), 'appState');
+  } catch (error) {
+    console.error("Failed to migrate app state:", error);
+  }
+
+  tx.addEventListener('complete', () => {
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction as IDBTransaction;
+      const oldVersion = event.oldVersion;
+
+      for (let version = oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version - 1](db, tx);
+      }
+
+      if (oldVersion === 0) {
+        migrateFromLocalStorage(tx);
+      }
+
+      // Which release last changed the schema, for troubleshooting and future migrations
+      tx.objectStore(META_STORE).put(APP_VERSION, SCHEMA_APP_VERSION_KEY);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: close so it isn't blocked, reopen lazily next time
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn("Storage upgrade is waiting for other open tabs to close.");
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in a single transaction and resolves with its result once the transaction commits
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+};
+
+// Walks a cursor and collects values until it runs out or `limit` is reached
+export const collectCursor = <T>(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  limit = Infinity
+): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const values: T[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || values.length >= limit) {
+        resolve(values);
+        return;
+      }
+      values.push(cursor.value as T);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { GrammarAnalysis, Segment } from '../types';
+import { CHUNK_MAX_LENGTH, DocumentChunk, mergeChunkResults, splitIntoChunks } from './documentChunker';
+
+const SENTENCE = 'The quick brown fox jumps over the lazy dog near the river bank. ';
+
+const DOCUMENT = [
+  SENTENCE.repeat(8).trim(),
+  'A short paragraph.',
+  `${SENTENCE.repeat(3)}Does it end here? Yes!`
+].join('\n\n');
+
+// The text between consecutive chunks, and before the first and after the last
+const gapsBetween = (text: string, chunks: DocumentChunk[]): string[] => {
+  const gaps: string[] = [];
+  let cursor = 0;
+  chunks.forEach(chunk => {
+    gaps.push(text.slice(cursor, chunk.start));
+    cursor = chunk.start + chunk.text.length;
+  });
+  gaps.push(text.slice(cursor));
+  return gaps;
+};
+
+const analysisOf = (segments: Segment[]): GrammarAnalysis => ({
+  segments,
+  correctedSentence: segments.map(s => s.isError ? s.correction ?? s.text : s.text).join(''),
+  explanation: { overview: '', improvements: [] },
+  alignment: { status: 'exact', unresolved: [] }
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps every chunk under the limit', () => {
+    const chunks = splitIntoChunks(DOCUMENT);
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(CHUNK_MAX_LENGTH));
+  });
+
+  it('breaks on sentence and paragraph boundaries', () => {
+    splitIntoChunks(DOCUMENT).forEach(chunk => {
+      expect(chunk.text).toMatch(/[.!?]$/);
+      const after = DOCUMENT.slice(chunk.start + chunk.text.length);
+      expect(after === '' || /^\s/.test(after)).toBe(true);
+    });
+  });
+
+  it('covers the input exactly, leaving only whitespace between chunks', () => {
+    const chunks = splitIntoChunks(DOCUMENT);
+    chunks.forEach(chunk => {
+      expect(DOCUMENT.slice(chunk.start, chunk.start + chunk.text.length)).toBe(chunk.text);
+    });
+    const gaps = gapsBetween(DOCUMENT, chunks);
+    gaps.forEach(gap => expect(gap.trim()).toBe(''));
+    expect(chunks.map((chunk, index) => gaps[index] + chunk.text).join('') + gaps[chunks.length]).toBe(DOCUMENT);
+  });
+
+  it('splits a run-on sentence on whitespace', () => {
+    const runOn = 'word '.repeat(100).trim();
+    const chunks = splitIntoChunks(runOn, 50);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(50);
+      expect(chunk.text).toMatch(/^word( word)*$/);
+    });
+    gapsBetween(runOn, chunks).forEach(gap => expect(gap.trim()).toBe(''));
+  });
+});
+
+describe('mergeChunkResults', () => {
+  const text = '  She go home.\n\nThey was late.  ';
+  const chunks = splitIntoChunks(text);
+  const results = [
+    analysisOf([
+      { text: 'She ', isError: false, start: 0, end: 4 },
+      { text: 'go', isError: true, correction: 'goes', start: 4, end: 6 },
+      { text: ' home.', isError: false, start: 6, end: 12 }
+    ]),
+    analysisOf([
+      { text: 'They ', isError: false, start: 0, end: 5 },
+      { text: 'was', isError: true, correction: 'were', start: 5, end: 8 },
+      { text: ' late.', isError: false, start: 8, end: 14 }
+    ])
+  ];
+
+  it('shifts segments to document offsets', () => {
+    const merged = mergeChunkResults(text, chunks, results);
+    merged.segments.forEach(segment => {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text);
+    });
+    expect(merged.segments.filter(s => s.isError).map(s => [s.text, s.start])).toEqual([['go', 6], ['was', 21]]);
+  });
+
+  it('fills the gaps between chunks with plain text', () => {
+    const merged = mergeChunkResults(text, chunks, results);
+    expect(merged.segments.map(s => s.text).join('')).toBe(text);
+    expect(merged.segments.filter(s => !s.text.trim()).every(s => !s.isError)).toBe(true);
+    expect(merged.correctedSentence).toBe('  She goes home.\n\nThey were late.  ');
+  });
+});
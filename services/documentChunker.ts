@@ -0,0 +1,134 @@
+import { GrammarAnalysis, Segment, WordData } from "../types";
+import { tokenizeWords } from "./responseValidation";
+
+// Long documents are checked as independent chunks (paragraphs, or groups of sentences
+// when a paragraph is too long) and stitched back into a single analysis afterwards.
+
+export const DOCUMENT_MAX_LENGTH = 20000;
+// Longest text sent as a single request outside document mode
+export const SENTENCE_MAX_LENGTH = 300;
+export const CHUNK_MAX_LENGTH = 300;
+
+export interface DocumentChunk {
+  text: string;
+  start: number; // Offset of the chunk in the full document
+}
+
+// Splits a paragraph into sentences, keeping each sentence's trailing whitespace.
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?…。！？]*(?:[.!?…。！？]+["'”’)\]]*)?\s*/gu) || []).filter(Boolean);
+
+// Last resort for run-on sentences: break on whitespace (or hard-cut if there is none).
+const splitWords = (text: string, maxLength: number): string[] => {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const cut = rest.lastIndexOf(' ', maxLength);
+    const end = cut > 0 ? cut + 1 : maxLength;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+};
+
+// Groups consecutive pieces into chunks no longer than maxLength.
+const packPieces = (pieces: string[], maxLength: number): string[] => {
+  const packed: string[] = [];
+  let current = '';
+
+  pieces.flatMap(piece => (piece.length > maxLength ? splitWords(piece, maxLength) : [piece])).forEach(piece => {
+    if (current && current.length + piece.length > maxLength) {
+      packed.push(current);
+      current = '';
+    }
+    current += piece;
+  });
+
+  if (current) packed.push(current);
+  return packed;
+};
+
+export const splitIntoChunks = (text: string, maxLength = CHUNK_MAX_LENGTH): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  const paragraphPattern = /\S[\s\S]*?(?=\n\s*\n|\s*$)/g;
+
+  for (const match of text.matchAll(paragraphPattern)) {
+    const paragraph = match[0];
+    let offset = match.index ?? 0;
+
+    const pieces = paragraph.length > maxLength ? packPieces(splitSentences(paragraph), maxLength) : [paragraph];
+    pieces.forEach(piece => {
+      // Whitespace between pieces stays outside the chunks so it is never sent to the model
+      const leading = piece.length - piece.trimStart().length;
+      const content = piece.trim();
+      if (content) {
+        chunks.push({ text: content, start: offset + leading });
+      }
+      offset += piece.length;
+    });
+  }
+
+  return chunks;
+};
+
+export const mergeChunkResults = (text: string, chunks: DocumentChunk[], results: GrammarAnalysis[]): GrammarAnalysis => {
+  const segments: Segment[] = [];
+  const correctedWords: WordData[] = [];
+  const overviews: string[] = [];
+  const improvements = new Set<string>();
+  const englishOverviews: string[] = [];
+  const englishImprovements = new Set<string>();
+  const unresolved: string[] = [];
+  let correctedSentence = '';
+  let hasMismatch = false;
+  let cursor = 0;
+
+  const pushGap = (end: number) => {
+    if (end <= cursor) return;
+    const gap = text.slice(cursor, end);
+    segments.push({ text: gap, isError: false, start: cursor, end });
+    correctedWords.push(...tokenizeWords(gap));
+    correctedSentence += gap;
+  };
+
+  chunks.forEach((chunk, index) => {
+    const result = results[index];
+    pushGap(chunk.start);
+
+    result.segments.forEach(segment => {
+      const start = chunk.start + (segment.start ?? 0);
+      const end = chunk.start + (segment.end ?? segment.text.length);
+      segments.push({ ...segment, start, end });
+    });
+
+    correctedWords.push(...(result.correctedWords || tokenizeWords(result.correctedSentence)));
+    correctedSentence += result.correctedSentence;
+
+    if (result.explanation.overview) overviews.push(result.explanation.overview);
+    result.explanation.improvements.forEach(item => improvements.add(item));
+    if (result.explanationEnglish?.overview) englishOverviews.push(result.explanationEnglish.overview);
+    result.explanationEnglish?.improvements.forEach(item => englishImprovements.add(item));
+
+    if (result.alignment?.status === 'mismatch') hasMismatch = true;
+    unresolved.push(...(result.alignment?.unresolved || []));
+
+    cursor = chunk.start + chunk.text.length;
+  });
+
+  pushGap(text.length);
+
+  return {
+    segments,
+    correctedSentence,
+    correctedWords,
+    explanation: {
+      overview: overviews.join(' '),
+      improvements: Array.from(improvements)
+    },
+    ...(englishOverviews.length > 0 || englishImprovements.size > 0
+      ? { explanationEnglish: { overview: englishOverviews.join(' '), improvements: Array.from(englishImprovements) } }
+      : {}),
+    alignment: { status: hasMismatch ? 'mismatch' : 'reanchored', unresolved }
+  };
+};
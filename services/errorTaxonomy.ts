@@ -0,0 +1,58 @@
+import { ErrorCategory } from "../types";
+
+// Fixed set of error categories the model must choose from. The order here is the
+// order used in prompts and schemas.
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  'articles',
+  'verb-tense',
+  'subject-verb-agreement',
+  'prepositions',
+  'pronouns',
+  'plurals',
+  'spelling',
+  'capitalization',
+  'punctuation',
+  'word-order',
+  'word-choice',
+  'style',
+  'other'
+];
+
+// Common variations models produce instead of the exact category id
+const CATEGORY_ALIASES: Record<string, ErrorCategory> = {
+  article: 'articles',
+  determiner: 'articles',
+  determiners: 'articles',
+  tense: 'verb-tense',
+  'verb-form': 'verb-tense',
+  verb: 'verb-tense',
+  agreement: 'subject-verb-agreement',
+  sva: 'subject-verb-agreement',
+  preposition: 'prepositions',
+  pronoun: 'pronouns',
+  plural: 'plurals',
+  plurality: 'plurals',
+  typo: 'spelling',
+  orthography: 'spelling',
+  capitalisation: 'capitalization',
+  capitals: 'capitalization',
+  syntax: 'word-order',
+  vocabulary: 'word-choice',
+  'word-usage': 'word-choice',
+  usage: 'word-choice',
+  clarity: 'style',
+  fluency: 'style',
+  tone: 'style'
+};
+
+export const isErrorCategory = (value: unknown): value is ErrorCategory =>
+  typeof value === 'string' && (ERROR_CATEGORIES as string[]).includes(value);
+
+// Maps whatever the model returned onto the taxonomy; anything unrecognised becomes 'other'.
+export const normalizeCategory = (value: unknown): ErrorCategory => {
+  if (typeof value !== 'string') return 'other';
+  const key = value.toLowerCase().trim().replace(/[\s_]+/g, '-');
+  if (isErrorCategory(key)) return key;
+  return CATEGORY_ALIASES[key] ?? 'other';
+};
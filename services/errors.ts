@@ -0,0 +1,186 @@
+// Everything the AI service layer can fail with. Providers throw these directly when they can
+// tell what went wrong; anything else is classified by `toAppError` before it leaves the
+// service layer, so the UI only ever switches on `kind`.
+
+export type AppErrorKind =
+  | 'missing-key'
+  | 'invalid-key'
+  | 'quota'
+  | 'overloaded'
+  | 'offline'
+  | 'safety'
+  | 'malformed'
+  | 'off-task'
+  | 'budget'
+  | 'cancelled'
+  | 'unknown';
+
+export class AppError extends Error {
+  readonly kind: AppErrorKind;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number; // How long the server asked us to wait, when it said
+
+  constructor(kind: AppErrorKind, message: string, options: { retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+// No API key, or no server URL for the OpenAI-compatible provider
+export class MissingKeyError extends AppError {
+  constructor(message = "MISSING_API_KEY") {
+    super('missing-key', message);
+    this.name = 'MissingKeyError';
+  }
+}
+
+export class InvalidKeyError extends AppError {
+  constructor(cause?: unknown) {
+    super('invalid-key', "PERMISSION_DENIED", { cause });
+    this.name = 'InvalidKeyError';
+  }
+}
+
+export class QuotaExhaustedError extends AppError {
+  constructor(retryAfterMs?: number, cause?: unknown) {
+    super('quota', "RESOURCE_EXHAUSTED", { retryable: true, retryAfterMs, cause });
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export class OverloadedError extends AppError {
+  constructor(retryAfterMs?: number, cause?: unknown) {
+    super('overloaded', "SERVICE_UNAVAILABLE", { retryable: true, retryAfterMs, cause });
+    this.name = 'OverloadedError';
+  }
+}
+
+export class NetworkOfflineError extends AppError {
+  constructor(cause?: unknown) {
+    super('offline', "NETWORK_OFFLINE", { cause });
+    this.name = 'NetworkOfflineError';
+  }
+}
+
+// The model refused to answer because of its content filters
+export class SafetyBlockedError extends AppError {
+  constructor(reason?: string) {
+    super('safety', `SAFETY_BLOCKED${reason ? `: ${reason}` : ''}`);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class MalformedResponseError extends AppError {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super('malformed', "MALFORMED_RESPONSE");
+    this.name = 'MalformedResponseError';
+    this.issues = issues;
+  }
+}
+
+// A well-formed answer to a different task than the one asked, e.g. because the input
+// contained instructions the model followed
+export class OffTaskResponseError extends AppError {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super('off-task', "OFF_TASK_RESPONSE");
+    this.name = 'OffTaskResponseError';
+    this.issues = issues;
+  }
+}
+
+export class BudgetExceededError extends AppError {
+  constructor() {
+    super('budget', "BUDGET_EXCEEDED");
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class CancelledError extends AppError {
+  constructor() {
+    super('cancelled', "The request was cancelled.");
+    this.name = 'AbortError'; // Same name fetch and the SDK use for aborted requests
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Google APIs put the wait in the error body instead: RetryInfo { retryDelay: "12s" }
+const parseRetryDelay = (text: string): number | undefined => {
+  const match = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+// Maps an HTTP status to the error it stands for, or undefined when it says nothing specific
+export const errorFromStatus = (status: number, retryAfterMs?: number, cause?: unknown): AppError | undefined => {
+  if (status === 401 || status === 403) return new InvalidKeyError(cause);
+  if (status === 429) return new QuotaExhaustedError(retryAfterMs, cause);
+  if (status === 502 || status === 503 || status === 504 || status === 529) return new OverloadedError(retryAfterMs, cause);
+  return undefined;
+};
+
+// fetch rejects with a TypeError when the request never reached the server. That only
+// means "offline" when the browser agrees: online, the same rejection comes from a wrong
+// URL or a CORS refusal, and TypeErrors are also plain bugs. Those are reported as they are
+// instead of being queued to wait for a connection that is already there.
+export const isFetchFailureWhileOffline = (error: unknown): boolean =>
+  error instanceof TypeError && typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// SDK and fetch errors come in many shapes; these read the few fields that matter from any of them
+const hasField = <K extends string>(value: unknown, key: K): value is Record<K, unknown> =>
+  typeof value === 'object' && value !== null && key in value;
+
+const messageOf = (error: unknown): string | undefined =>
+  hasField(error, 'message') && typeof error.message === 'string' && error.message ? error.message : undefined;
+
+// Either an HTTP status on the error itself or a Google-style { error: { code } } body
+const statusOf = (error: unknown): number | undefined => {
+  if (hasField(error, 'status') && typeof error.status === 'number') return error.status;
+  if (hasField(error, 'error') && hasField(error.error, 'code') && typeof error.error.code === 'number') return error.error.code;
+  return undefined;
+};
+
+const describe = (error: unknown): string => {
+  let text = messageOf(error) ?? '';
+  try {
+    text += JSON.stringify(error);
+  } catch {
+    // Circular structures just keep the message
+  }
+  return text;
+};
+
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+
+  if (hasField(error, 'name') && error.name === 'AbortError') return new CancelledError();
+
+  if (isFetchFailureWhileOffline(error)) return new NetworkOfflineError(error);
+
+  const text = describe(error);
+  const retryAfterMs = parseRetryDelay(text);
+
+  const status = statusOf(error);
+  const byStatus = status !== undefined ? errorFromStatus(status, retryAfterMs, error) : undefined;
+  if (byStatus) return byStatus;
+
+  if (/PERMISSION_DENIED|API_KEY_INVALID|API key not valid/i.test(text)) return new InvalidKeyError(error);
+  if (/RESOURCE_EXHAUSTED|quota/i.test(text)) return new QuotaExhaustedError(retryAfterMs, error);
+  if (/UNAVAILABLE|overloaded/i.test(text)) return new OverloadedError(retryAfterMs, error);
+
+  return new AppError('unknown', messageOf(error) ?? String(error), { cause: error });
+};
@@ -1,251 +1,277 @@
+import { AIProvider, GrammarAnalysis, LanguageSettings, PreviewHandler, ProviderCallOptions, RewriteAnalysis, RewriteStyle, TargetLanguage, TokenUsage, UsageOperation } from "../types";
+import { getProviderSettings } from "./storageService";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { reconcileAnalysis } from "./segmentReconciliation";
+import { splitIntoChunks, mergeChunkResults } from "./documentChunker";
+import { detectLanguage } from "./languages";
+import { ResponseCacheKey, getCachedResponse, putCachedResponse } from "./responseCache";
+import { isDailyBudgetReached, recordUsage } from "./usage";
+import { BudgetExceededError, CancelledError, toAppError } from "./errors";
+import { assertGrammarOnTask, assertRewriteOnTask } from "./responseGuard";
 
+// Waits `ms`, or rejects as soon as the signal aborts so a stopped request isn't retried later
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
+// Resolve the provider on every call so settings changes apply without a reload.
+export const getActiveProvider = (): AIProvider => {
+  const settings = getProviderSettings();
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { GrammarAnalysis, RewriteAnalysis, RewriteStyle } from "../types";
-import { getStoredApiKey } from "./storageService";
-
-declare const process: {
-  env: {
-    API_KEY: string | undefined;
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return mockProvider;
+    case 'gemini':
+    default:
+      return createGeminiProvider();
   }
 };
 
-const modelId = "gemini-2.5-flash";
+// A server asking for a longer pause than this is treated as out of quota for now: the error
+// goes straight to the user, who can retry later, instead of leaving the request hanging
+const MAX_RETRY_AFTER_MS = 30000;
+
+async function retryWithBackoff<T>(fn: () => Promise<T>, signal?: AbortSignal, retries = 3, initialDelay = 2000): Promise<T> {
+  let attempt = 0;
+  while (true) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await fn();
+    } catch (caught) {
+      // A cancelled request is never retried, whatever the provider made of the abort
+      if (signal?.aborted) throw new CancelledError();
+
+      const error = toAppError(caught);
+      attempt++;
+      if (!error.retryable || attempt >= retries) throw error;
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > MAX_RETRY_AFTER_MS) throw error;
+
+      const waitTime = error.retryAfterMs ?? initialDelay * Math.pow(2, attempt - 1);
+      console.warn(`API Request failed (Attempt ${attempt}/${retries}). Retrying in ${waitTime}ms...`, caught);
+      await delay(waitTime, signal);
+    }
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting cancels the request and any pending retry
+  forceRefresh?: boolean; // Skip the response cache and ask the model again
+  onCacheHit?: (cachedAt: number) => void; // Called when the answer came from the cache instead
+}
+
+const cacheModel = (provider: AIProvider) => `${provider.id}:${provider.model}`;
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// The offline mock derives its answers from the input, so only model output needs guarding
+const isModelOutput = (provider: AIProvider) => provider.id !== 'mock';
 
-// Dynamic client initialization
-const getGenAIClient = () => {
-  // Prioritize the user-provided API key from local storage, fallback to env variable.
-  const apiKey = getStoredApiKey() || process.env.API_KEY;
-  
-  if (!apiKey) {
-    throw new Error("MISSING_API_KEY");
+// Runs one operation against the provider, retries included, and records what it used:
+// tokens, time and how many calls it took. Refuses to start once the daily budget is spent.
+const runTracked = async <T>(
+  provider: AIProvider,
+  operation: UsageOperation,
+  signal: AbortSignal | undefined,
+  call: (options: ProviderCallOptions) => Promise<T>
+): Promise<T> => {
+  if (await isDailyBudgetReached()) {
+    throw new BudgetExceededError();
+  }
+
+  const started = Date.now();
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let calls = 0;
+
+  const record = (success: boolean) => calls > 0
+    ? recordUsage({
+        timestamp: started,
+        operation,
+        provider: provider.id,
+        model: provider.model,
+        ...usage,
+        latencyMs: Date.now() - started,
+        calls,
+        success
+      })
+    : Promise.resolve();
+
+  const options: ProviderCallOptions = {
+    signal,
+    onUsage: ({ inputTokens, outputTokens }) => {
+      usage.inputTokens += inputTokens;
+      usage.outputTokens += outputTokens;
+    }
+  };
+
+  try {
+    const result = await retryWithBackoff(() => {
+      calls++;
+      return call(options);
+    }, signal);
+    await record(true);
+    return result;
+  } catch (error) {
+    await record(false);
+    throw toAppError(error);
   }
-  
-  return new GoogleGenAI({ apiKey });
 };
 
-async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, initialDelay = 2000): Promise<T> {
-  let attempt = 0;
-  while (attempt < retries) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      // Robust error message extraction to handle various error shapes
-      let msg = error?.message || '';
-      
-      // Handle the specific JSON error structure: {"error": {"code": 429, ...}}
-      if (error?.error) {
-          msg += JSON.stringify(error.error);
-      }
-      
-      // Fallback for other object types
-      if (typeof error === 'object') {
-          try {
-             msg += JSON.stringify(error);
-          } catch(e) {}
-      }
-      
-      msg += error?.toString() || '';
+// `onPreview` receives the corrected text and explanation while they stream in; a retry
+// starts the preview over from the beginning. Answers served from the cache skip it.
+export const checkGrammar = async (
+  text: string,
+  languages: LanguageSettings,
+  onPreview?: PreviewHandler,
+  options: RequestOptions = {}
+): Promise<GrammarAnalysis> => {
+  const provider = getActiveProvider();
+  const cacheKey: ResponseCacheKey = { operation: 'grammar', text, model: cacheModel(provider), languages };
 
-      // Check for specific error types
-      if (msg.includes('MISSING_API_KEY')) {
-        throw error; // Do not retry missing key
-      }
+  const cached = options.forceRefresh ? null : await getCachedResponse<GrammarAnalysis>(cacheKey);
+  let analysis: GrammarAnalysis;
+  if (cached) {
+    analysis = cached.value;
+    options.onCacheHit?.(cached.createdAt);
+  } else {
+    analysis = await runTracked(provider, 'grammar', options.signal, async callOptions => {
+      const result = await provider.checkGrammar(text, languages, { ...callOptions, onPreview });
+      if (isModelOutput(provider)) assertGrammarOnTask(text, result);
+      return result;
+    });
+    await putCachedResponse(cacheKey, analysis);
+  }
 
-      // Check for Permission Denied (403)
-      if (msg.includes('PERMISSION_DENIED') || msg.includes('403') || msg.includes('Permission denied')) {
-        throw new Error("PERMISSION_DENIED");
-      }
+  // Highlights must always line up with what the user actually typed
+  const reconciled = reconcileAnalysis(text, analysis);
+  // Not every provider reports the input language, so fall back to a local guess
+  const detectedLanguage = reconciled.detectedLanguage ?? detectLanguage(text);
+  return detectedLanguage ? { ...reconciled, detectedLanguage } : reconciled;
+};
 
-      // Check for 429 (Too Many Requests/Quota) or 503 (Service Unavailable)
-      const isRateLimit = msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED') || msg.includes('Quota');
-      const isServerOverload = msg.includes('503') || msg.includes('Overloaded');
+// Runs `worker` over every item with at most `limit` calls in flight, preserving order.
+// After the first failure no further items are started.
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
 
-      if (!isRateLimit && !isServerOverload) {
+  const run = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index]);
+      } catch (error) {
+        failed = true;
         throw error;
       }
+    }
+  };
 
-      attempt++;
-      if (attempt >= retries) throw error;
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
 
-      const waitTime = initialDelay * Math.pow(2, attempt - 1);
-      console.warn(`API Request failed (Attempt ${attempt}/${retries}). Retrying in ${waitTime}ms...`, error);
-      await delay(waitTime);
-    }
+const DOCUMENT_CONCURRENCY = 3;
+
+export const checkDocument = async (
+  text: string,
+  languages: LanguageSettings,
+  onProgress?: (completed: number, total: number) => void,
+  options: RequestOptions = {}
+): Promise<GrammarAnalysis> => {
+  const chunks = splitIntoChunks(text);
+  if (chunks.length === 0) {
+    return checkGrammar(text, languages, undefined, options);
   }
-  throw new Error("Max retries exceeded");
-}
 
-export const checkGrammar = async (text: string): Promise<GrammarAnalysis> => {
-  return retryWithBackoff(async () => {
-    try {
-      const genAI = getGenAIClient();
-      
-      const response = await genAI.models.generateContent({
-        model: modelId,
-        contents: `Analyze the following text for grammar, spelling, punctuation, and style improvements. 
-        
-        Input Text: "${text}"
-        
-        Important: Provide the 'explanation' (overview and improvements) in English.
-        
-        Return a JSON object with:
-        1. 'segments': An array representing the ORIGINAL text reconstructed exactly, but split into parts. 
-           - Mark parts with strict grammar/spelling errors as 'isError': true and 'severity': 'critical'.
-           - Mark parts that are grammatically correct but have stylistic suggestions/improvements as 'isError': true and 'severity': 'suggestion'.
-        2. 'correctedSentence': The fully corrected version of the text.
-        3. 'correctedWords': An array of objects {text, ipa} representing the corrected sentence broken down into tokens (words, spaces, punctuation). For actual words, provide the IPA pronunciation in 'ipa' (Do NOT include slashes /.../ around the pronunciation). For spaces/punctuation, 'ipa' should be empty.
-        4. 'explanation': A structured object containing a professional overview and a list of specific improvements (IN English).
-        
-        Important: When reassembling the 'segments' text properties, it MUST equal the exact original input text (including whitespaces).`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              segments: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    text: { type: Type.STRING, description: "A portion of the original text. Include spaces/punctuation if they belong here." },
-                    isError: { type: Type.BOOLEAN, description: "True if this segment contains an error or suggestion." },
-                    severity: { type: Type.STRING, enum: ["critical", "suggestion"], description: "critical: strict grammar/spelling error. suggestion: stylistic improvement but grammatically valid." },
-                    correction: { type: Type.STRING, description: "The corrected version of this specific segment (if error)." },
-                    reason: { type: Type.STRING, description: "Short reason for the error (if error)." }
-                  },
-                  required: ["text", "isError"]
-                }
-              },
-              correctedSentence: { type: Type.STRING },
-              correctedWords: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    text: { type: Type.STRING, description: "The word, space, or punctuation mark." },
-                    ipa: { type: Type.STRING, description: "IPA pronunciation for words (RAW string without slashes), empty string for non-words." }
-                  },
-                  required: ["text", "ipa"]
-                }
-              },
-              explanation: {
-                type: Type.OBJECT,
-                properties: {
-                  overview: { type: Type.STRING, description: `A professional, concise summary of the text's quality (1-2 sentences) in English.` },
-                  improvements: { type: Type.ARRAY, items: { type: Type.STRING }, description: `A list of specific grammar rules applied or corrections made in English.` }
-                },
-                required: ["overview", "improvements"]
-              }
-            },
-            required: ["segments", "correctedSentence", "correctedWords", "explanation"]
-          }
-        }
-      });
-
-      if (!response.text) {
-          throw new Error("No response text from Gemini");
+  let completed = 0;
+  onProgress?.(0, chunks.length);
+
+  // Chunks are cached one by one, so editing a paragraph only re-checks that paragraph. The
+  // document only counts as cached when every chunk was.
+  const cacheHits: number[] = [];
+
+  // One failed chunk fails the document, so the chunks still in flight are stopped rather than
+  // left to spend quota and report progress on a check that has already failed
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  if (options.signal?.aborted) stop();
+  options.signal?.addEventListener('abort', stop);
+  const chunkOptions: RequestOptions = { ...options, signal: controller.signal, onCacheHit: cachedAt => cacheHits.push(cachedAt) };
+
+  let results: GrammarAnalysis[];
+  try {
+    results = await mapWithConcurrency(chunks, DOCUMENT_CONCURRENCY, async chunk => {
+      const result = await checkGrammar(chunk.text, languages, undefined, chunkOptions);
+      if (!controller.signal.aborted) {
+        completed++;
+        onProgress?.(completed, chunks.length);
       }
+      return result;
+    });
+  } catch (error) {
+    stop();
+    throw error;
+  } finally {
+    options.signal?.removeEventListener('abort', stop);
+  }
 
-      const data = JSON.parse(response.text) as GrammarAnalysis;
-      return data;
+  const merged = mergeChunkResults(text, chunks, results);
+  if (cacheHits.length === chunks.length) {
+    options.onCacheHit?.(Math.min(...cacheHits));
+  }
 
-    } catch (error) {
-      console.error("Error checking grammar:", error);
-      throw error;
-    }
+  // The document's language is whatever most of its parts were detected as
+  const votes = new Map<string, number>();
+  results.forEach(result => {
+    if (result.detectedLanguage) votes.set(result.detectedLanguage, (votes.get(result.detectedLanguage) || 0) + 1);
   });
+  const [detectedLanguage] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+  return detectedLanguage ? { ...merged, detectedLanguage } : merged;
 };
 
-export const rewriteText = async (text: string, style: RewriteStyle): Promise<RewriteAnalysis> => {
-  return retryWithBackoff(async () => {
-    try {
-      const genAI = getGenAIClient();
-
-      const response = await genAI.models.generateContent({
-        model: modelId,
-        contents: `Rewrite the following text in a "${style}" style.
-        
-        Input Text: "${text}"
-        
-        Important: Provide the 'explanation' in English.
-        
-        Return a JSON object with:
-        1. 'rewrittenText': The text rewritten in the requested style.
-        2. 'rewrittenWords': An array of objects {text, ipa} representing the rewritten text broken down into tokens (words, spaces, punctuation). For actual words, provide the IPA pronunciation in 'ipa' (Do NOT include slashes /.../ around the pronunciation). For spaces/punctuation, 'ipa' should be empty.
-        3. 'explanation': A structured object containing an overview of the style changes and specific techniques used to match the '${style}' tone (IN English).
-        `,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              rewrittenText: { type: Type.STRING, description: "The rewritten text." },
-              rewrittenWords: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    text: { type: Type.STRING, description: "The word, space, or punctuation mark." },
-                    ipa: { type: Type.STRING, description: "IPA pronunciation for words (RAW string without slashes), empty string for non-words." }
-                  },
-                  required: ["text", "ipa"]
-                }
-              },
-              explanation: {
-                type: Type.OBJECT,
-                properties: {
-                  overview: { type: Type.STRING, description: `A concise summary of how the style was applied in English.` },
-                  improvements: { type: Type.ARRAY, items: { type: Type.STRING }, description: `List of specific stylistic changes or techniques in English.` }
-                },
-                required: ["overview", "improvements"]
-              }
-            },
-            required: ["rewrittenText", "rewrittenWords", "explanation"]
-          }
-        }
-      });
-
-      if (!response.text) {
-        throw new Error("No response text from Gemini");
-      }
+export const rewriteText = async (
+  text: string,
+  style: RewriteStyle,
+  languages: LanguageSettings,
+  onPreview?: PreviewHandler,
+  options: RequestOptions = {}
+): Promise<RewriteAnalysis> => {
+  const provider = getActiveProvider();
+  const cacheKey: ResponseCacheKey = { operation: 'rewrite', text, style, model: cacheModel(provider), languages };
 
-      const data = JSON.parse(response.text);
-      return {
-        originalText: text,
-        rewrittenText: data.rewrittenText,
-        rewrittenWords: data.rewrittenWords,
-        style: style,
-        explanation: data.explanation
-      };
-
-    } catch (error) {
-      console.error("Error rewriting text:", error);
-      throw error;
-    }
+  const cached = options.forceRefresh ? null : await getCachedResponse<RewriteAnalysis>(cacheKey);
+  if (cached) {
+    options.onCacheHit?.(cached.createdAt);
+    return { ...cached.value, originalText: text };
+  }
+
+  const analysis = await runTracked(provider, 'rewrite', options.signal, async callOptions => {
+    const result = await provider.rewriteText(text, style, languages, { ...callOptions, onPreview });
+    if (isModelOutput(provider)) assertRewriteOnTask(text, result, languages);
+    return result;
   });
+  await putCachedResponse(cacheKey, analysis);
+  return analysis;
 };
 
-export const generateExampleSentence = async (word: string, definition: string): Promise<string> => {
-  return retryWithBackoff(async () => {
-    try {
-      const genAI = getGenAIClient();
-      const response = await genAI.models.generateContent({
-        model: modelId,
-        contents: `Write a single, short, natural English example sentence using the word "${word}" that demonstrates the following definition: "${definition}". Return ONLY the sentence.`,
-      });
-      
-      const text = response.text?.trim();
-      if (!text) throw new Error("No text generated");
-      
-      // Clean up quotes if the model adds them
-      return text.replace(/^["']|["']$/g, '');
-    } catch (error) {
-      console.error("Error generating example:", error);
-      throw error;
-    }
-  });
-};
\ No newline at end of file
+export const generateExampleSentence = async (word: string, definition: string, language: TargetLanguage, signal?: AbortSignal): Promise<string> => {
+  const provider = getActiveProvider();
+  return runTracked(provider, 'example', signal, callOptions =>
+    provider.generateExampleSentence(word, definition, language, callOptions)
+  );
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { AppLanguage } from '../types';
+import { getTranslations } from './i18n';
+import { UNTRANSLATED, translations } from './translations';
+
+const LOCALES = Object.keys(translations).filter(language => language !== 'en') as Exclude<AppLanguage, 'en'>[];
+
+const isSection = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Every problem with a locale's keys, as dotted paths, so one failure lists them all
+const keyProblems = (reference: Record<string, unknown>, locale: Record<string, unknown>, path = ''): string[] => {
+  const problems: string[] = [];
+
+  Object.keys(reference).forEach(key => {
+    const where = `${path}${key}`;
+    const expected = reference[key];
+    if (!(key in locale)) {
+      problems.push(`missing ${where}`);
+      return;
+    }
+    const value = locale[key];
+    if (value === UNTRANSLATED) return;
+    if (isSection(expected)) {
+      if (isSection(value)) {
+        problems.push(...keyProblems(expected, value, `${where}.`));
+      } else {
+        problems.push(`${where} should be a section`);
+      }
+    } else if (typeof value !== 'string') {
+      problems.push(`${where} should be a string`);
+    }
+  });
+
+  Object.keys(locale).forEach(key => {
+    if (!(key in reference)) problems.push(`extra ${path}${key}`);
+  });
+
+  return problems;
+};
+
+describe('translations', () => {
+  it.each(LOCALES)('%s covers exactly the English keys', language => {
+    expect(keyProblems(translations.en, translations[language] as Record<string, unknown>)).toEqual([]);
+  });
+
+  it('renders untranslated keys in English', () => {
+    expect(translations.zh.results).not.toBe(UNTRANSLATED);
+    expect((translations.zh.results as Record<string, unknown>).quickRewrites).toBe(UNTRANSLATED);
+    expect(getTranslations('zh').results.quickRewrites).toBe(translations.en.results.quickRewrites);
+  });
+
+  it('keeps translated keys', () => {
+    const zhNav = translations.zh.nav as Record<string, unknown>;
+    expect(getTranslations('zh').nav.profile).toBe(zhNav.profile);
+    expect(getTranslations('zh').nav.profile).not.toBe(translations.en.nav.profile);
+  });
+});
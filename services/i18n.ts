@@ -0,0 +1,76 @@
+import { createContext, useContext } from 'react';
+import { AppLanguage } from '../types';
+import { Translations, UNTRANSLATED, translations } from './translations';
+
+// Interface language layer. English is the reference table; every other locale is laid over
+// it so keys a locale marks UNTRANSLATED still render (in English) instead of blank.
+
+export type { Translations };
+
+export const UI_LANGUAGES = Object.keys(translations) as AppLanguage[];
+
+// Locales used for dates and numbers in each interface language
+const DATE_LOCALES: Record<AppLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  pt: 'pt-BR',
+  fr: 'fr-FR',
+  ja: 'ja-JP',
+  zh: 'zh-CN'
+};
+
+export const isUiLanguage = (value: unknown): value is AppLanguage =>
+  typeof value === 'string' && (UI_LANGUAGES as string[]).includes(value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const withFallback = (base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> => {
+  const merged: Record<string, unknown> = { ...base };
+  Object.keys(override).forEach(key => {
+    const value = override[key];
+    if (value === UNTRANSLATED) return;
+    merged[key] = isPlainObject(base[key]) && isPlainObject(value) ? withFallback(base[key], value) : value;
+  });
+  return merged;
+};
+
+const tableCache = new Map<AppLanguage, Translations>();
+
+export const getTranslations = (language: AppLanguage): Translations => {
+  const cached = tableCache.get(language);
+  if (cached) return cached;
+
+  const table = language === 'en'
+    ? translations.en
+    : withFallback(translations.en, translations[language] as Record<string, unknown>) as Translations;
+  tableCache.set(language, table);
+  return table;
+};
+
+// First supported language from the browser preferences, English otherwise
+export const detectUiLanguage = (): AppLanguage => {
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  for (const tag of preferred) {
+    const code = tag?.split('-')[0].toLowerCase();
+    if (isUiLanguage(code)) return code;
+  }
+  return 'en';
+};
+
+export interface I18n {
+  language: AppLanguage;
+  t: Translations;
+  dateLocale: string;
+}
+
+export const createI18n = (language: AppLanguage): I18n => ({
+  language,
+  t: getTranslations(language),
+  dateLocale: DATE_LOCALES[language]
+});
+
+export const I18nContext = createContext<I18n>(createI18n('en'));
+
+// Components read strings through this so they re-render when the language changes
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage } from './languages';
+
+describe('detectLanguage', () => {
+  it('reads English full of articles as English', () => {
+    expect(detectLanguage('I bought a car, a house and a boat with the money.')).toBe('en');
+    expect(detectLanguage('She gave me a book about a cat that was lost.')).toBe('en');
+  });
+
+  it('does not guess Portuguese from one-letter words', () => {
+    expect(detectLanguage('I bought a car, a house and a boat.')).not.toBe('pt');
+    expect(detectLanguage('She gave me a book about a cat.')).not.toBe('pt');
+  });
+
+  it('keeps English with a quoted Japanese word as English', () => {
+    expect(detectLanguage('My teacher said ありがとう means thank you, and that was the first word I learned.')).toBe('en');
+    expect(detectLanguage('My teacher said ありがとう means thank you.')).not.toBe('ja');
+  });
+
+  it('detects Japanese and Chinese by script share', () => {
+    expect(detectLanguage('今日はとても良い天気ですね。')).toBe('ja');
+    expect(detectLanguage('我今天去学校学习中文。')).toBe('zh');
+  });
+
+  it('detects the other Latin-script languages', () => {
+    expect(detectLanguage('Los niños tienen una casa muy grande con un jardín.')).toBe('es');
+    expect(detectLanguage('Nous sommes allés dans une maison avec des amis.')).toBe('fr');
+    expect(detectLanguage('Você não tem uma casa muito grande com jardim.')).toBe('pt');
+  });
+
+  it('returns undefined when unsure', () => {
+    expect(detectLanguage('Hello there')).toBeUndefined();
+    expect(detectLanguage('OK, see you.')).toBeUndefined();
+    expect(detectLanguage('')).toBeUndefined();
+  });
+});
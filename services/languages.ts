@@ -0,0 +1,111 @@
+import { AppLanguage, TargetLanguage } from "../types";
+
+// Everything that depends on the language being learned: how prompts name it, which locale
+// speech recognition and synthesis use, and which dictionary the lookups go to. Also the
+// learner's native languages that explanations can be written in.
+
+export interface LanguageInfo {
+  name: string; // English name, used inside prompts
+  nativeName: string; // Shown in the language picker
+  speechLocale: string; // BCP 47 tag for SpeechRecognition and SpeechSynthesisUtterance
+  dictionaryCode: string; // Path segment of the dictionaryapi.dev entries endpoint
+}
+
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguage = 'en';
+
+export const LANGUAGES: Record<TargetLanguage, LanguageInfo> = {
+  en: { name: 'English', nativeName: 'English', speechLocale: 'en-US', dictionaryCode: 'en' },
+  es: { name: 'Spanish', nativeName: 'Español', speechLocale: 'es-ES', dictionaryCode: 'es' },
+  fr: { name: 'French', nativeName: 'Français', speechLocale: 'fr-FR', dictionaryCode: 'fr' },
+  pt: { name: 'Portuguese', nativeName: 'Português', speechLocale: 'pt-BR', dictionaryCode: 'pt-BR' },
+  ja: { name: 'Japanese', nativeName: '日本語', speechLocale: 'ja-JP', dictionaryCode: 'ja' },
+  zh: { name: 'Chinese', nativeName: '中文', speechLocale: 'zh-CN', dictionaryCode: 'zh' }
+};
+
+export const TARGET_LANGUAGES = Object.keys(LANGUAGES) as TargetLanguage[];
+
+// English names of the native languages explanations can be written in, for prompts
+export const NATIVE_LANGUAGE_NAMES: Record<AppLanguage, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  ja: 'Japanese',
+  zh: 'Chinese'
+};
+
+export const NATIVE_LANGUAGES = Object.keys(NATIVE_LANGUAGE_NAMES) as AppLanguage[];
+
+export const isNativeLanguage = (value: unknown): value is AppLanguage =>
+  typeof value === 'string' && (NATIVE_LANGUAGES as string[]).includes(value);
+
+export const isTargetLanguage = (value: unknown): value is TargetLanguage =>
+  typeof value === 'string' && (TARGET_LANGUAGES as string[]).includes(value);
+
+// Reduces whatever a model returns ("es-MX", "Spanish", " FR ") to a lowercase ISO 639-1 code
+export const normalizeLanguageCode = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const cleaned = value.trim().toLowerCase();
+  if (!cleaned) return undefined;
+
+  const byName = TARGET_LANGUAGES.find(code => LANGUAGES[code].name.toLowerCase() === cleaned);
+  if (byName) return byName;
+
+  const code = cleaned.split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(code) ? code : undefined;
+};
+
+// Name of any detected language, including ones we don't offer as a target
+export const getLanguageDisplayName = (code: string): string => {
+  if (isTargetLanguage(code)) return LANGUAGES[code].nativeName;
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+};
+
+// Frequent words of three letters or more that rarely appear in the other Latin-script
+// languages. Shorter ones ("a", "o", "e", "en", "la") belong to several of them at once.
+const STOPWORDS: Partial<Record<TargetLanguage, string[]>> = {
+  en: ['the', 'and', 'are', 'you', 'that', 'was', 'with', 'have', 'this', 'for', 'not', 'they', 'from', 'were', 'would', 'which', 'their', 'about'],
+  es: ['los', 'las', 'una', 'por', 'con', 'pero', 'muy', 'del', 'esta', 'este', 'como', 'cuando', 'porque', 'tiene', 'también', 'hay'],
+  fr: ['les', 'est', 'une', 'des', 'pour', 'avec', 'pas', 'nous', 'vous', 'dans', 'sont', 'mais', 'cette', 'qui', 'aussi', 'très'],
+  pt: ['uma', 'com', 'não', 'muito', 'você', 'também', 'isso', 'pelo', 'pela', 'são', 'ele', 'ela', 'depois', 'então', 'tem']
+};
+
+// Too few words to tell languages apart
+const MIN_DETECTION_WORDS = 4;
+const MIN_STOPWORD_HITS = 2;
+
+// Japanese or Chinese once at least this share of the letters are in those scripts, so a
+// quoted word like "ありがとう" doesn't turn an English sentence into Japanese
+const MIN_CJK_SHARE = 0.5;
+// Japanese mixes kana into Han characters; Chinese has none
+const MIN_KANA_SHARE = 0.1;
+
+// Fast local guess used when a provider does not report the language itself. Returns
+// undefined unless one language clearly wins: guessing wrong shows a false mismatch warning
+// or discards a valid rewrite, while no answer just skips those checks.
+export const detectLanguage = (text: string): TargetLanguage | undefined => {
+  const letters = text.match(/\p{L}/gu) || [];
+  if (letters.length === 0) return undefined;
+
+  const kana = (text.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu) || []).length;
+  const han = (text.match(/\p{Script=Han}/gu) || []).length;
+  if ((kana + han) / letters.length >= MIN_CJK_SHARE) {
+    return kana / (kana + han) >= MIN_KANA_SHARE ? 'ja' : 'zh';
+  }
+
+  const words = text.toLowerCase().match(/\p{Script=Latin}+/gu) || [];
+  if (words.length < MIN_DETECTION_WORDS) return undefined;
+
+  const scores = (Object.keys(STOPWORDS) as TargetLanguage[])
+    .map(code => ({ code, score: words.filter(word => (STOPWORDS[code] as string[]).includes(word)).length }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  // The winner needs twice the runner-up's hits, so one shared-looking word can't decide it
+  const confident = best.score >= MIN_STOPWORD_HITS && best.score >= 2 * runnerUp.score;
+  return confident ? best.code : undefined;
+};
@@ -0,0 +1,138 @@
+import { GrammarAnalysis, LanguageSettings, PendingCheck } from "../types";
+import { PENDING_CHECKS_STORE, withStore, collectCursor } from "./db";
+import { checkDocument, checkGrammar } from "./geminiService";
+import { toAppError } from "./errors";
+import { addReviewCards, saveHistory } from "./storageService";
+
+// Grammar checks submitted without a connection wait here and run, oldest first, once the
+// browser is back online. The queue lives in IndexedDB so closing the tab doesn't lose it;
+// finished checks land in history like any other.
+
+export interface QueueRunResult {
+  completed: { check: PendingCheck; analysis: GrammarAnalysis; historyId: string | null }[];
+  failed: number; // Dropped because they can't succeed as submitted
+  remaining: number;
+  retryAfterMs?: number; // How long the service asked to wait, when it stopped the run
+}
+
+// Checks still queued while online are retried with growing gaps, and after this many runs
+// in a row make no progress the queue is reported as stuck and waits for the user
+export const MAX_QUEUE_RETRIES = 5;
+const QUEUE_RETRY_BASE_MS = 15000;
+const QUEUE_RETRY_MAX_MS = 5 * 60 * 1000;
+
+export const queueRetryDelay = (attempt: number, retryAfterMs?: number): number =>
+  Math.max(retryAfterMs ?? 0, Math.min(QUEUE_RETRY_BASE_MS * 2 ** attempt, QUEUE_RETRY_MAX_MS));
+
+// Submitting the same text twice while offline queues it once
+export const enqueueCheck = async (text: string, languages: LanguageSettings, isDocument: boolean): Promise<PendingCheck | null> => {
+  const check: PendingCheck = { id: crypto.randomUUID(), text, languages, isDocument, createdAt: Date.now() };
+  try {
+    return await withStore(PENDING_CHECKS_STORE, 'readwrite', async store => {
+      const pending = await collectCursor<PendingCheck>(store.openCursor());
+      const duplicate = pending.find(other =>
+        other.text === text && other.isDocument === isDocument && JSON.stringify(other.languages) === JSON.stringify(languages)
+      );
+      if (duplicate) return duplicate;
+
+      store.put(check);
+      return check;
+    });
+  } catch (error) {
+    console.error("Failed to queue check:", error);
+    return null;
+  }
+};
+
+export const getPendingChecks = async (): Promise<PendingCheck[]> => {
+  try {
+    return await withStore(PENDING_CHECKS_STORE, 'readonly', store =>
+      collectCursor<PendingCheck>(store.index('createdAt').openCursor())
+    );
+  } catch (error) {
+    console.error("Failed to load queued checks:", error);
+    return [];
+  }
+};
+
+export const clearPendingChecks = async (): Promise<void> => {
+  try {
+    await withStore(PENDING_CHECKS_STORE, 'readwrite', store => {
+      store.clear();
+    });
+  } catch (error) {
+    console.error("Failed to clear queued checks:", error);
+  }
+};
+
+const removePendingCheck = async (id: string): Promise<void> => {
+  try {
+    await withStore(PENDING_CHECKS_STORE, 'readwrite', store => {
+      store.delete(id);
+    });
+  } catch (error) {
+    console.error("Failed to remove queued check:", error);
+  }
+};
+
+// Stops at the first check that fails for a reason that may pass (still offline, rate
+// limited, overloaded) and leaves it and everything after it queued. Checks that can't
+// succeed as submitted (no API key, blocked text...) are dropped so they don't block the rest.
+export const runPendingChecks = async (): Promise<QueueRunResult> => {
+  const pending = await getPendingChecks();
+  const result: QueueRunResult = { completed: [], failed: 0, remaining: 0 };
+
+  for (let i = 0; i < pending.length; i++) {
+    const check = pending[i];
+    try {
+      const analysis = check.isDocument
+        ? await checkDocument(check.text, check.languages)
+        : await checkGrammar(check.text, check.languages);
+
+      await removePendingCheck(check.id);
+      const historyId = await saveHistory(check.text, analysis);
+      await addReviewCards(check.text, analysis);
+      result.completed.push({ check, analysis, historyId });
+    } catch (caught) {
+      const error = toAppError(caught);
+      if (error.kind === 'offline' || error.retryable) {
+        result.remaining = pending.length - i;
+        result.retryAfterMs = error.retryAfterMs;
+        break;
+      }
+      console.error("Queued check failed:", error);
+      await removePendingCheck(check.id);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+// Asked when the first check is queued, so the answer is in by the time the queue runs
+export const requestQueueNotifications = async (): Promise<void> => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.error("Failed to request notification permission:", error);
+  }
+};
+
+// Only shown while the app is in the background; in the foreground the results are on screen.
+// Goes through the service worker where there is one, since mobile browsers only allow that.
+export const notifyQueueFinished = async (title: string, body: string): Promise<void> => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  if (document.visibilityState === 'visible') return;
+
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, icon: '/icon.svg', tag: 'grammarguard-queue' });
+    } else {
+      new Notification(title, { body, icon: '/icon.svg', tag: 'grammarguard-queue' });
+    }
+  } catch (error) {
+    console.error("Failed to show notification:", error);
+  }
+};
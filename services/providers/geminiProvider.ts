@@ -0,0 +1,224 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, GrammarAnalysis, LanguageSettings, ProviderCallOptions, RewriteAnalysis, RewriteStyle, TargetLanguage } from "../../types";
+import { getStoredApiKey } from "../storageService";
+import { buildGrammarPrompt, buildRewritePrompt, buildExamplePrompt } from "../prompts";
+import { parseModelJson, validateGrammarAnalysis, validateRewriteAnalysis } from "../responseValidation";
+import { ERROR_CATEGORIES } from "../errorTaxonomy";
+import { createPreviewReader } from "../streaming";
+import { MissingKeyError, SafetyBlockedError } from "../errors";
+
+declare const process: {
+  env: {
+    API_KEY: string | undefined;
+  }
+};
+
+const modelId = "gemini-2.5-flash";
+
+// Dynamic client initialization
+const getGenAIClient = () => {
+  // Prioritize the user-provided API key from local storage, fallback to env variable.
+  const apiKey = getStoredApiKey() || process.env.API_KEY;
+
+  if (!apiKey) {
+    throw new MissingKeyError();
+  }
+
+  return new GoogleGenAI({ apiKey });
+};
+
+const wordDataSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: "The word, space, or punctuation mark." },
+      ipa: { type: Type.STRING, description: "IPA pronunciation for words (RAW string without slashes), empty string for non-words." }
+    },
+    required: ["text", "ipa"]
+  }
+};
+
+// Optional English copy of the explanation, filled only when the prompt asks for it
+const englishExplanationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING, description: "The explanation overview in English." },
+    improvements: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The explanation improvements in English." }
+  },
+  required: ["overview", "improvements"]
+};
+
+const reportUsage = (metadata: GenerateContentResponseUsageMetadata | undefined, options: ProviderCallOptions) => {
+  if (!metadata) return;
+  options.onUsage?.({
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+  });
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII
+];
+
+// A blocked prompt or answer comes back as an ordinary response with no text, not as an error
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockedError(finishReason);
+};
+
+// Streams the response, handing the text received so far to `onText` after every chunk.
+// Usage metadata is cumulative, so only the last chunk's counts are reported.
+const streamContent = async (
+  params: GenerateContentParameters,
+  onText: (buffer: string) => void,
+  options: ProviderCallOptions
+): Promise<string> => {
+  const stream = await getGenAIClient().models.generateContentStream(params);
+  let buffer = '';
+  let usage: GenerateContentResponseUsageMetadata | undefined;
+  for await (const chunk of stream) {
+    throwIfBlocked(chunk);
+    buffer += chunk.text || '';
+    usage = chunk.usageMetadata || usage;
+    onText(buffer);
+  }
+  reportUsage(usage, options);
+  return buffer;
+};
+
+const checkGrammar = async (text: string, languages: LanguageSettings, options: ProviderCallOptions = {}): Promise<GrammarAnalysis> => {
+  try {
+    const responseText = await streamContent({
+      model: modelId,
+      contents: buildGrammarPrompt(text, languages),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            segments: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING, description: "A portion of the original text. Include spaces/punctuation if they belong here." },
+                  isError: { type: Type.BOOLEAN, description: "True if this segment contains an error or suggestion." },
+                  severity: { type: Type.STRING, enum: ["critical", "suggestion"], description: "critical: strict grammar/spelling error. suggestion: stylistic improvement but grammatically valid." },
+                  category: { type: Type.STRING, enum: ERROR_CATEGORIES, description: "The grammar rule this error breaks (if error)." },
+                  correction: { type: Type.STRING, description: "The corrected version of this specific segment (if error)." },
+                  reason: { type: Type.STRING, description: "Short reason for the error (if error), in the requested explanation language." },
+                  reasonEnglish: { type: Type.STRING, description: "The same reason in English (only if requested)." }
+                },
+                required: ["text", "isError"]
+              }
+            },
+            correctedSentence: { type: Type.STRING },
+            correctedWords: wordDataSchema,
+            explanation: {
+              type: Type.OBJECT,
+              properties: {
+                overview: { type: Type.STRING, description: `A professional, concise summary of the text's quality (1-2 sentences) in the requested explanation language.` },
+                improvements: { type: Type.ARRAY, items: { type: Type.STRING }, description: `A list of specific grammar rules applied or corrections made in the requested explanation language.` }
+              },
+              required: ["overview", "improvements"]
+            },
+            explanationEnglish: englishExplanationSchema,
+            detectedLanguage: { type: Type.STRING, description: "ISO 639-1 code of the language the input is written in." }
+          },
+          required: ["segments", "correctedSentence", "correctedWords", "explanation"],
+          // Displayable text first so it can render while the rest is still generating
+          propertyOrdering: ["correctedSentence", "explanation", "explanationEnglish", "segments", "correctedWords", "detectedLanguage"]
+        }
+      }
+    }, createPreviewReader('correctedSentence', options.onPreview), options);
+
+    if (!responseText) {
+        throw new Error("No response text from Gemini");
+    }
+
+    return validateGrammarAnalysis(parseModelJson(responseText), text);
+
+  } catch (error) {
+    console.error("Error checking grammar:", error);
+    throw error;
+  }
+};
+
+const rewriteText = async (text: string, style: RewriteStyle, languages: LanguageSettings, options: ProviderCallOptions = {}): Promise<RewriteAnalysis> => {
+  try {
+    const responseText = await streamContent({
+      model: modelId,
+      contents: buildRewritePrompt(text, style, languages),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            rewrittenText: { type: Type.STRING, description: "The rewritten text." },
+            rewrittenWords: wordDataSchema,
+            explanation: {
+              type: Type.OBJECT,
+              properties: {
+                overview: { type: Type.STRING, description: `A concise summary of how the style was applied in the requested explanation language.` },
+                improvements: { type: Type.ARRAY, items: { type: Type.STRING }, description: `List of specific stylistic changes or techniques in the requested explanation language.` }
+              },
+              required: ["overview", "improvements"]
+            },
+            explanationEnglish: englishExplanationSchema
+          },
+          required: ["rewrittenText", "rewrittenWords", "explanation"],
+          propertyOrdering: ["rewrittenText", "explanation", "explanationEnglish", "rewrittenWords"]
+        }
+      }
+    }, createPreviewReader('rewrittenText', options.onPreview), options);
+
+    if (!responseText) {
+      throw new Error("No response text from Gemini");
+    }
+
+    return validateRewriteAnalysis(parseModelJson(responseText), text, style);
+
+  } catch (error) {
+    console.error("Error rewriting text:", error);
+    throw error;
+  }
+};
+
+const generateExampleSentence = async (word: string, definition: string, language: TargetLanguage, options: ProviderCallOptions = {}): Promise<string> => {
+  try {
+    const genAI = getGenAIClient();
+    const response = await genAI.models.generateContent({
+      model: modelId,
+      contents: buildExamplePrompt(word, definition, language),
+      config: { abortSignal: options.signal }
+    });
+    reportUsage(response.usageMetadata, options);
+    throwIfBlocked(response);
+
+    const text = response.text?.trim();
+    if (!text) throw new Error("No text generated");
+
+    // Clean up quotes if the model adds them
+    return text.replace(/^["']|["']$/g, '');
+  } catch (error) {
+    console.error("Error generating example:", error);
+    throw error;
+  }
+};
+
+export const createGeminiProvider = (): AIProvider => ({
+  id: 'gemini',
+  model: modelId,
+  checkGrammar,
+  rewriteText,
+  generateExampleSentence
+});
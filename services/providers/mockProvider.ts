@@ -0,0 +1,239 @@
+import { AIProvider, ErrorCategory, GrammarAnalysis, LanguageSettings, RewriteAnalysis, RewriteStyle, Segment, TargetLanguage } from "../../types";
+import { tokenizeWords } from "../responseValidation";
+
+// Deterministic offline provider: a handful of rule-based checks so the whole UI can be
+// exercised without any network access or API key. Same input always yields the same output.
+// Its reasons and explanations are canned English text, whatever the native language setting.
+
+interface MockRule {
+  pattern: RegExp;
+  fix: (match: string) => string;
+  severity: 'critical' | 'suggestion';
+  category: ErrorCategory;
+  reason: string;
+  languages?: TargetLanguage[]; // Omitted for rules that hold in every language
+}
+
+const RULES: MockRule[] = [
+  {
+    pattern: /\bi\b/g,
+    fix: () => 'I',
+    severity: 'critical',
+    category: 'capitalization',
+    reason: 'The pronoun "I" is always capitalized.',
+    languages: ['en']
+  },
+  {
+    pattern: /\b(\w+) \1\b/gi,
+    fix: (match) => match.split(' ')[0],
+    severity: 'critical',
+    category: 'word-choice',
+    reason: 'Repeated word.'
+  },
+  {
+    pattern: /\balot\b/gi,
+    fix: () => 'a lot',
+    severity: 'critical',
+    category: 'spelling',
+    reason: '"A lot" is always written as two words.',
+    languages: ['en']
+  },
+  {
+    pattern: /\b(could|should|would|must) of\b/gi,
+    fix: (match) => match.replace(/ of$/i, ' have'),
+    severity: 'critical',
+    category: 'verb-tense',
+    reason: 'Use "have" after modal verbs, not "of".',
+    languages: ['en']
+  },
+  {
+    pattern: /\b(dont|cant|wont|doesnt|isnt|didnt|wasnt|arent)\b/gi,
+    fix: (match) => `${match.slice(0, -1)}'${match.slice(-1)}`,
+    severity: 'critical',
+    category: 'punctuation',
+    reason: 'Contractions need an apostrophe.',
+    languages: ['en']
+  },
+  {
+    pattern: / {2,}/g,
+    fix: () => ' ',
+    severity: 'suggestion',
+    category: 'punctuation',
+    reason: 'Use a single space between words.'
+  },
+  {
+    pattern: /\bvery (good|big|small|bad)\b/gi,
+    fix: (match) => ({ good: 'excellent', big: 'huge', small: 'tiny', bad: 'terrible' } as Record<string, string>)[match.split(' ')[1].toLowerCase()],
+    severity: 'suggestion',
+    category: 'style',
+    reason: 'A stronger adjective reads better than "very" + adjective.',
+    languages: ['en']
+  }
+];
+
+interface Span {
+  start: number;
+  end: number;
+  correction: string;
+  severity: 'critical' | 'suggestion';
+  category: ErrorCategory;
+  reason: string;
+}
+
+const findSpans = (text: string, language: TargetLanguage): Span[] => {
+  const spans: Span[] = [];
+
+  RULES.filter(rule => !rule.languages || rule.languages.includes(language)).forEach(rule => {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      spans.push({
+        start,
+        end: start + match[0].length,
+        correction: rule.fix(match[0]),
+        severity: rule.severity,
+        category: rule.category,
+        reason: rule.reason
+      });
+    }
+  });
+
+  // First letter of the text should be a capital
+  const firstLetter = text.search(/\S/);
+  if (firstLetter !== -1 && /[a-z]/.test(text[firstLetter])) {
+    const wordEnd = text.slice(firstLetter).search(/\W|$/) + firstLetter;
+    const word = text.slice(firstLetter, wordEnd);
+    spans.push({
+      start: firstLetter,
+      end: wordEnd,
+      correction: word.charAt(0).toUpperCase() + word.slice(1),
+      severity: 'critical',
+      category: 'capitalization',
+      reason: 'Sentences start with a capital letter.'
+    });
+  }
+
+  // Keep the earliest, then longest, span when rules overlap
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  return spans.filter((span, i) => !spans.slice(0, i).some(prev => span.start < prev.end && prev.start < span.end));
+};
+
+// Chinese and Japanese end sentences with a full-width stop
+const usesFullWidthStop = (language: TargetLanguage) => language === 'ja' || language === 'zh';
+
+const applySpans = (text: string, spans: Span[], language: TargetLanguage) => {
+  const segments: Segment[] = [];
+  let corrected = '';
+  let cursor = 0;
+
+  spans.forEach(span => {
+    if (span.start > cursor) {
+      const plain = text.slice(cursor, span.start);
+      segments.push({ text: plain, isError: false });
+      corrected += plain;
+    }
+    segments.push({
+      text: text.slice(span.start, span.end),
+      isError: true,
+      severity: span.severity,
+      category: span.category,
+      correction: span.correction,
+      reason: span.reason
+    });
+    corrected += span.correction;
+    cursor = span.end;
+  });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), isError: false });
+    corrected += text.slice(cursor);
+  }
+
+  // Missing terminal punctuation is reported on the last segment
+  const trimmed = corrected.trimEnd();
+  if (trimmed && !/[.!?…。！？]$/.test(trimmed)) {
+    const stop = usesFullWidthStop(language) ? '。' : '.';
+    const last = segments[segments.length - 1];
+    if (last && !last.isError) {
+      segments[segments.length - 1] = {
+        ...last,
+        isError: true,
+        severity: 'suggestion',
+        correction: `${last.text.trimEnd()}${stop}${last.text.slice(last.text.trimEnd().length)}`,
+        category: 'punctuation',
+        reason: 'End the sentence with punctuation.'
+      };
+      corrected = `${trimmed}${stop}${corrected.slice(trimmed.length)}`;
+    }
+  }
+
+  return { segments, corrected };
+};
+
+const checkGrammar = async (text: string, languages: LanguageSettings): Promise<GrammarAnalysis> => {
+  const spans = findSpans(text, languages.target);
+  const { segments, corrected } = applySpans(text, spans, languages.target);
+  const issues = segments.filter(s => s.isError);
+
+  return {
+    segments,
+    correctedSentence: corrected,
+    correctedWords: tokenizeWords(corrected),
+    explanation: {
+      overview: issues.length === 0
+        ? 'No issues were found by the offline checker.'
+        : `The offline checker found ${issues.length} issue${issues.length === 1 ? '' : 's'}.`,
+      improvements: Array.from(new Set(issues.map(s => s.reason as string)))
+    }
+  };
+};
+
+const CONTRACTIONS: [RegExp, string][] = [
+  [/\bdo not\b/gi, "don't"],
+  [/\bcannot\b/gi, "can't"],
+  [/\bit is\b/gi, "it's"],
+  [/\bI am\b/g, "I'm"],
+  [/\bwill not\b/gi, "won't"]
+];
+
+const rewriteText = async (text: string, style: RewriteStyle, languages: LanguageSettings): Promise<RewriteAnalysis> => {
+  const { correctedSentence } = await checkGrammar(text, languages);
+  const language = languages.target;
+  let rewritten = correctedSentence;
+  let technique = 'Kept the corrected wording unchanged.';
+
+  // Contractions are English-only; other languages keep the corrected wording
+  if (language === 'en' && (style === 'Casual' || style === 'Informal')) {
+    CONTRACTIONS.forEach(([pattern, short]) => {
+      rewritten = rewritten.replace(pattern, short);
+    });
+    technique = 'Used contractions for a relaxed tone.';
+  } else if (language === 'en' && (style === 'Professional' || style === 'Formal' || style === 'Academic')) {
+    CONTRACTIONS.forEach(([pattern, short]) => {
+      const long = pattern.source.replace(/\\b/g, '');
+      rewritten = rewritten.replace(new RegExp(`\\b${short}\\b`, 'gi'), long);
+    });
+    technique = 'Expanded contractions for a formal tone.';
+  }
+
+  return {
+    originalText: text,
+    rewrittenText: rewritten,
+    rewrittenWords: tokenizeWords(rewritten),
+    style,
+    explanation: {
+      overview: `Offline "${style}" rewrite generated without an AI model.`,
+      improvements: [technique]
+    }
+  };
+};
+
+const generateExampleSentence = async (word: string, _definition: string, _language: TargetLanguage): Promise<string> =>
+  `Here is an example that uses the word "${word}" in a sentence.`;
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  model: 'offline-mock',
+  checkGrammar,
+  rewriteText,
+  generateExampleSentence
+};
@@ -0,0 +1,192 @@
+import { AIProvider, AIProviderSettings, GrammarAnalysis, LanguageSettings, ProviderCallOptions, RewriteAnalysis, RewriteStyle, TargetLanguage, TokenUsage } from "../../types";
+import { buildGrammarPrompt, buildRewritePrompt, buildExamplePrompt, GRAMMAR_JSON_SHAPE, REWRITE_JSON_SHAPE } from "../prompts";
+import { parseModelJson, validateGrammarAnalysis, validateRewriteAnalysis } from "../responseValidation";
+import { createPreviewReader } from "../streaming";
+import { MissingKeyError, NetworkOfflineError, SafetyBlockedError, errorFromStatus, isFetchFailureWhileOffline, parseRetryAfter } from "../errors";
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+const JSON_SYSTEM_PROMPT = "You are a precise writing assistant. Respond ONLY with a single valid JSON object and no surrounding prose or code fences.";
+
+// Self-hosted servers (llama.cpp, vLLM, Ollama...) are usually reachable without a key.
+const buildHeaders = (apiKey?: string): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  return headers;
+};
+
+// The `usage` block of a completion; servers that don't count tokens leave it out
+const toTokenUsage = (usage: unknown): TokenUsage | undefined => {
+  if (typeof usage !== 'object' || usage === null) return undefined;
+  const { prompt_tokens, completion_tokens } = usage as Record<string, unknown>;
+  if (typeof prompt_tokens !== 'number') return undefined;
+  return { inputTokens: prompt_tokens, outputTokens: typeof completion_tokens === 'number' ? completion_tokens : 0 };
+};
+
+// Collects the content deltas of a server-sent-events completion stream. Usage, when the
+// server sends it, arrives in a final event of its own.
+const readEventStream = async (
+  response: Response,
+  onText: (buffer: string) => void,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> => {
+  if (!response.body) {
+    throw new Error("No response body from provider");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  let content = '';
+  let filtered = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || ''; // Last line may be incomplete
+
+    lines.forEach(line => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+      try {
+        const event = JSON.parse(data);
+        const usage = toTokenUsage(event?.usage);
+        if (usage) onUsage?.(usage);
+
+        const choice = event?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') filtered = true;
+        const delta: string | undefined = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onText(content);
+        }
+      } catch (e) {
+        console.warn("Skipping unreadable stream event:", data);
+      }
+    });
+  }
+
+  if (filtered) throw new SafetyBlockedError('content_filter');
+  return content;
+};
+
+export const createOpenAICompatibleProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = settings.openaiBaseUrl.replace(/\/+$/, '');
+  const model = settings.openaiModel;
+
+  // With `onText` the completion is streamed and reported as it grows
+  const chat = async (
+    messages: ChatMessage[],
+    json: boolean,
+    options: ProviderCallOptions,
+    onText?: (buffer: string) => void
+  ): Promise<string> => {
+    if (!baseUrl) {
+      throw new MissingKeyError("MISSING_PROVIDER_URL");
+    }
+
+    // fetch only rejects on its own when the server couldn't be reached at all (or on abort)
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(settings.openaiApiKey),
+      signal: options.signal,
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: 0.2,
+        ...(onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+        ...(json ? { response_format: { type: 'json_object' } } : {})
+      })
+    }).catch(error => {
+      throw isFetchFailureWhileOffline(error) ? new NetworkOfflineError(error) : error;
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const cause = new Error(`HTTP ${response.status}: ${body}`);
+      throw errorFromStatus(response.status, parseRetryAfter(response.headers.get('Retry-After')), cause) ?? cause;
+    }
+
+    if (onText) {
+      const content = await readEventStream(response, onText, options.onUsage);
+      if (!content) {
+        throw new Error("No response text from provider");
+      }
+      return content;
+    }
+
+    const data = await response.json();
+    const usage = toTokenUsage(data?.usage);
+    if (usage) options.onUsage?.(usage);
+
+    if (data?.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new SafetyBlockedError('content_filter');
+    }
+
+    const content: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("No response text from provider");
+    }
+    return content;
+  };
+
+  const checkGrammar = async (text: string, languages: LanguageSettings, options: ProviderCallOptions = {}): Promise<GrammarAnalysis> => {
+    try {
+      const content = await chat([
+        { role: 'system', content: JSON_SYSTEM_PROMPT },
+        { role: 'user', content: `${buildGrammarPrompt(text, languages)}\n\nThe JSON object MUST have this shape:\n${GRAMMAR_JSON_SHAPE}` }
+      ], true, options, options.onPreview && createPreviewReader('correctedSentence', options.onPreview));
+
+      return validateGrammarAnalysis(parseModelJson(content), text);
+    } catch (error) {
+      console.error("Error checking grammar:", error);
+      throw error;
+    }
+  };
+
+  const rewriteText = async (text: string, style: RewriteStyle, languages: LanguageSettings, options: ProviderCallOptions = {}): Promise<RewriteAnalysis> => {
+    try {
+      const content = await chat([
+        { role: 'system', content: JSON_SYSTEM_PROMPT },
+        { role: 'user', content: `${buildRewritePrompt(text, style, languages)}\n\nThe JSON object MUST have this shape:\n${REWRITE_JSON_SHAPE}` }
+      ], true, options, options.onPreview && createPreviewReader('rewrittenText', options.onPreview));
+
+      return validateRewriteAnalysis(parseModelJson(content), text, style);
+    } catch (error) {
+      console.error("Error rewriting text:", error);
+      throw error;
+    }
+  };
+
+  const generateExampleSentence = async (word: string, definition: string, language: TargetLanguage, options: ProviderCallOptions = {}): Promise<string> => {
+    try {
+      const content = await chat([{ role: 'user', content: buildExamplePrompt(word, definition, language) }], false, options);
+      const text = content.trim();
+      if (!text) throw new Error("No text generated");
+
+      // Clean up quotes if the model adds them
+      return text.replace(/^["']|["']$/g, '');
+    } catch (error) {
+      console.error("Error generating example:", error);
+      throw error;
+    }
+  };
+
+  return {
+    id: 'openai',
+    model,
+    checkGrammar,
+    rewriteText,
+    generateExampleSentence
+  };
+};
@@ -0,0 +1,115 @@
+import { LanguageSettings, RewriteStyle } from "../types";
+import { RESPONSE_CACHE_STORE, withStore, requestToPromise, collectCursor } from "./db";
+import { PROMPT_VERSION } from "./prompts";
+
+// Persistent cache of AI responses, so checking the same text again (or asking for a rewrite
+// style already generated) is instant, free and works offline. Entries are keyed by everything
+// that shapes the answer; anything else changing means a fresh request.
+
+export type CachedOperation = 'grammar' | 'rewrite';
+
+export interface ResponseCacheKey {
+  operation: CachedOperation;
+  text: string;
+  style?: RewriteStyle;
+  model: string; // Provider id and model, e.g. "gemini:gemini-2.5-flash"
+  languages: LanguageSettings;
+}
+
+export interface CachedResponse<T> {
+  value: T;
+  createdAt: number;
+}
+
+interface CacheRecord<T = unknown> extends CachedResponse<T> {
+  key: string;
+  lastUsedAt: number;
+}
+
+// Least recently used entries are dropped beyond this many, and nothing is served once it is
+// older than MAX_AGE_MS, so a model update eventually reaches everyone
+const MAX_ENTRIES = 500;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Differences that don't change what the model is asked: Unicode form, line endings and
+// surrounding whitespace. Inner spacing is kept, since a double space can be the error itself.
+const normalizeText = (text: string) => text.normalize('NFC').replace(/\r\n?/g, '\n').trim();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Hashed so long documents don't become huge IndexedDB keys; without SubtleCrypto (plain
+// http) the composite string is used as is
+const buildKey = async (key: ResponseCacheKey): Promise<string> => {
+  const { target, explanation, showEnglish } = key.languages;
+  const composite = JSON.stringify([
+    PROMPT_VERSION,
+    key.operation,
+    key.model,
+    key.style ?? null,
+    target,
+    explanation,
+    showEnglish,
+    normalizeText(key.text)
+  ]);
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) return composite;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(composite));
+  return toHex(digest);
+};
+
+const isExpired = (record: CacheRecord, now: number) => now - record.createdAt > MAX_AGE_MS;
+
+export const getCachedResponse = async <T>(key: ResponseCacheKey): Promise<CachedResponse<T> | null> => {
+  try {
+    const id = await buildKey(key);
+    return await withStore(RESPONSE_CACHE_STORE, 'readwrite', async store => {
+      const record = await requestToPromise(store.get(id)) as CacheRecord<T> | undefined;
+      if (!record) return null;
+
+      const now = Date.now();
+      if (isExpired(record, now)) {
+        store.delete(id);
+        return null;
+      }
+
+      store.put({ ...record, lastUsedAt: now });
+      return { value: record.value, createdAt: record.createdAt };
+    });
+  } catch (error) {
+    console.error("Failed to read response cache:", error);
+    return null;
+  }
+};
+
+export const putCachedResponse = async <T>(key: ResponseCacheKey, value: T): Promise<void> => {
+  try {
+    const id = await buildKey(key);
+    const now = Date.now();
+    await withStore(RESPONSE_CACHE_STORE, 'readwrite', async store => {
+      store.put({ key: id, value, createdAt: now, lastUsedAt: now } as CacheRecord<T>);
+
+      const expired = await collectCursor<CacheRecord>(store.index('createdAt').openCursor(IDBKeyRange.upperBound(now - MAX_AGE_MS)));
+      expired.forEach(record => store.delete(record.key));
+
+      const count = await requestToPromise(store.count());
+      if (count <= MAX_ENTRIES) return;
+
+      // Least recently used first, so the cursor walks exactly the entries over the limit
+      const stale = await collectCursor<CacheRecord>(store.index('lastUsedAt').openCursor(), count - MAX_ENTRIES);
+      stale.forEach(record => store.delete(record.key));
+    });
+  } catch (error) {
+    console.error("Failed to write response cache:", error);
+  }
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  try {
+    await withStore(RESPONSE_CACHE_STORE, 'readwrite', store => {
+      store.clear();
+    });
+  } catch (error) {
+    console.error("Failed to clear response cache:", error);
+  }
+};
@@ -0,0 +1,120 @@
+import { GrammarAnalysis, LanguageSettings, RewriteAnalysis } from "../types";
+import { OffTaskResponseError } from "./errors";
+import { LANGUAGES, detectLanguage } from "./languages";
+import { UNTRUSTED_TAG } from "./prompts";
+
+// Fencing the input keeps most injected instructions from being followed, but not all of
+// them. These checks catch answers that are valid JSON yet clearly about something else:
+// a "correction" that kept almost nothing of the text, segments that don't reproduce it,
+// a rewrite in another language, or the prompt itself echoed back.
+
+// Below this many tokens there is too little text to judge overlap reliably
+const MIN_TOKENS = 6;
+
+// Share of the input's tokens an answer must keep. A correction changes a few words, a
+// rewrite in the same language rephrases but still shares most small words.
+const MIN_SEGMENTS_RETAINED = 0.5;
+const MIN_CORRECTION_RETAINED = 0.3;
+const MIN_REWRITE_RETAINED = 0.15;
+
+// Each Chinese or Japanese character counts as a token, since those scripts don't use spaces
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}])+/gu;
+
+const tokenize = (text: string) => text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+// Edit distance counting a swap of neighbouring letters as one edit, the most common typo
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// A misspelled word and its correction count as the same token
+const isCorrectionOf = (input: string, output: string) =>
+  Math.abs(input.length - output.length) <= 2 && editDistance(input, output) <= Math.max(1, Math.floor(input.length / 3));
+
+// Share of the input's tokens that also appear in `output`, counting repeats. Exact matches
+// are taken first; only the tokens left over are compared for spelling corrections.
+const retainedShare = (input: string[], output: string): number => {
+  const available = new Map<string, number>();
+  tokenize(output).forEach(token => available.set(token, (available.get(token) || 0) + 1));
+
+  const take = (token: string) => {
+    const count = available.get(token) || 0;
+    if (count === 0) return false;
+    available.set(token, count - 1);
+    return true;
+  };
+
+  const unmatched = input.filter(token => !take(token));
+  const fuzzy = unmatched.filter(token => {
+    const match = [...available.keys()].find(candidate => available.get(candidate)! > 0 && isCorrectionOf(token, candidate));
+    return match !== undefined && take(match);
+  });
+
+  return (input.length - unmatched.length + fuzzy.length) / input.length;
+};
+
+const echoesPrompt = (input: string, output: string) =>
+  output.includes(`<${UNTRUSTED_TAG}`) && !input.includes(`<${UNTRUSTED_TAG}`);
+
+export const assertGrammarOnTask = (text: string, analysis: GrammarAnalysis): void => {
+  const issues: string[] = [];
+  const inputTokens = tokenize(text);
+  const output = [analysis.correctedSentence, analysis.explanation.overview, ...analysis.explanation.improvements].join('\n');
+
+  if (echoesPrompt(text, output)) {
+    issues.push('Response repeats the prompt');
+  }
+
+  if (inputTokens.length >= MIN_TOKENS) {
+    const segmentsText = analysis.segments.map(segment => segment.text).join('');
+    if (retainedShare(inputTokens, segmentsText) < MIN_SEGMENTS_RETAINED) {
+      issues.push('Segments do not reproduce the input');
+    }
+    if (retainedShare(inputTokens, analysis.correctedSentence) < MIN_CORRECTION_RETAINED) {
+      issues.push('Corrected text has little in common with the input');
+    }
+  }
+
+  if (issues.length > 0) throw new OffTaskResponseError(issues);
+};
+
+export const assertRewriteOnTask = (text: string, analysis: RewriteAnalysis, languages: LanguageSettings): void => {
+  const issues: string[] = [];
+  const inputTokens = tokenize(text);
+
+  if (echoesPrompt(text, [analysis.rewrittenText, analysis.explanation.overview].join('\n'))) {
+    issues.push('Response repeats the prompt');
+  }
+
+  // Flagged only when the rewrite is long enough to judge, its language is clear, and it is
+  // the input's own language: the model left the text as it was written instead of writing
+  // it in the target language. A third language is more likely a wrong guess than a wrong
+  // answer, and the overlap check below still catches a rewrite that drifted off the input.
+  const inputLanguage = detectLanguage(text);
+  const rewriteLanguage = tokenize(analysis.rewrittenText).length >= MIN_TOKENS
+    ? detectLanguage(analysis.rewrittenText)
+    : undefined;
+  if (rewriteLanguage && rewriteLanguage !== languages.target && rewriteLanguage === inputLanguage) {
+    issues.push(`Rewrite is in ${LANGUAGES[rewriteLanguage].name} instead of ${LANGUAGES[languages.target].name}`);
+  }
+
+  // A rewrite into another language legitimately shares no words with the input
+  const sameLanguage = inputLanguage === languages.target;
+  if (sameLanguage && inputTokens.length >= MIN_TOKENS && retainedShare(inputTokens, analysis.rewrittenText) < MIN_REWRITE_RETAINED) {
+    issues.push('Rewrite has little in common with the input');
+  }
+
+  if (issues.length > 0) throw new OffTaskResponseError(issues);
+};
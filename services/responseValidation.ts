@@ -0,0 +1,235 @@
+import { Explanation, GrammarAnalysis, RewriteAnalysis, RewriteStyle, Segment, WordData } from "../types";
+import { isErrorCategory, normalizeCategory } from "./errorTaxonomy";
+import { normalizeLanguageCode } from "./languages";
+import { MalformedResponseError } from "./errors";
+
+// Model output is untrusted: everything here either normalizes it into the shapes the
+// components rely on, repairs what can be derived from other fields, or rejects it.
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const asBoolean = (value: unknown): boolean =>
+  value === true || value === 'true' || value === 1;
+
+// Splits text into word / whitespace / punctuation tokens without IPA.
+export const tokenizeWords = (text: string): WordData[] =>
+  (text.match(/\s+|[\p{L}\p{N}']+|[^\s\p{L}\p{N}']/gu) || []).map(token => ({ text: token, ipa: '' }));
+
+// Tolerates code fences and prose around the JSON object some models add.
+export const parseModelJson = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1));
+      } catch {
+        // fall through
+      }
+    }
+    throw new MalformedResponseError(['Response is not valid JSON']);
+  }
+};
+
+const normalizeSeverity = (value: unknown): Segment['severity'] => {
+  const severity = asString(value)?.toLowerCase().trim();
+  if (severity === 'suggestion' || severity === 'style' || severity === 'warning' || severity === 'minor') {
+    return 'suggestion';
+  }
+  return 'critical';
+};
+
+const normalizeSegment = (raw: unknown, issues: string[]): Segment | null => {
+  if (!isObject(raw)) {
+    issues.push('Dropped a segment that is not an object');
+    return null;
+  }
+
+  const text = asString(raw.text);
+  if (text === undefined) {
+    issues.push('Dropped a segment without text');
+    return null;
+  }
+
+  const correction = asString(raw.correction);
+  const reason = asString(raw.reason);
+  const reasonEnglish = asString(raw.reasonEnglish);
+  // A segment that carries a differing correction is an error even if the flag was omitted
+  const isError = asBoolean(raw.isError) || (correction !== undefined && correction !== text && raw.isError === undefined);
+
+  if (!isError) {
+    return { text, isError: false };
+  }
+
+  if (raw.severity !== 'critical' && raw.severity !== 'suggestion') {
+    issues.push(`Normalized severity "${String(raw.severity)}"`);
+  }
+
+  if (!isErrorCategory(raw.category)) {
+    issues.push(`Normalized category "${String(raw.category)}"`);
+  }
+
+  return {
+    text,
+    isError: true,
+    severity: normalizeSeverity(raw.severity),
+    category: normalizeCategory(raw.category),
+    correction,
+    reason,
+    ...(reasonEnglish ? { reasonEnglish } : {})
+  };
+};
+
+// Re-anchors the model's tokens onto the text, filling gaps (usually dropped whitespace)
+// with plain tokens. Returns null when the tokens do not appear in order.
+const alignWords = (words: WordData[], text: string): WordData[] | null => {
+  const aligned: WordData[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    if (!word.text.trim()) continue;
+    const index = text.indexOf(word.text, cursor);
+    if (index === -1) return null;
+    if (index > cursor) aligned.push(...tokenizeWords(text.slice(cursor, index)));
+    aligned.push(word);
+    cursor = index + word.text.length;
+  }
+
+  if (cursor < text.length) aligned.push(...tokenizeWords(text.slice(cursor)));
+  return aligned;
+};
+
+const normalizeWords = (raw: unknown, text: string, issues: string[]): WordData[] => {
+  const words = Array.isArray(raw)
+    ? raw
+        .filter(isObject)
+        .map(word => ({ text: asString(word.text), ipa: asString(word.ipa) || '' }))
+        .filter((word): word is WordData => word.text !== undefined)
+    : [];
+
+  if (words.map(w => w.text).join('') === text) {
+    return words;
+  }
+
+  // Words that do not spell out their text would render a different sentence
+  const aligned = words.length > 0 ? alignWords(words, text) : null;
+  if (aligned) {
+    issues.push('Re-aligned word tokens to text');
+    return aligned;
+  }
+
+  if (text) issues.push('Rebuilt word tokens from text');
+  return tokenizeWords(text);
+};
+
+const normalizeExplanation = (raw: unknown, issues: string[]): Explanation => {
+  if (!isObject(raw)) {
+    issues.push('Missing explanation');
+    return { overview: '', improvements: [] };
+  }
+
+  let improvements: string[] = [];
+  if (Array.isArray(raw.improvements)) {
+    improvements = raw.improvements.map(asString).filter((item): item is string => !!item);
+  } else if (typeof raw.improvements === 'string') {
+    issues.push('Wrapped non-array improvements');
+    improvements = [raw.improvements];
+  } else if (raw.improvements !== undefined) {
+    issues.push('Dropped invalid improvements');
+  }
+
+  return {
+    overview: asString(raw.overview) || '',
+    improvements
+  };
+};
+
+export const validateGrammarAnalysis = (raw: unknown, originalText: string): GrammarAnalysis => {
+  if (!isObject(raw)) {
+    throw new MalformedResponseError(['Response is not a JSON object']);
+  }
+
+  const issues: string[] = [];
+
+  let segments = Array.isArray(raw.segments)
+    ? raw.segments.map(segment => normalizeSegment(segment, issues)).filter((s): s is Segment => s !== null)
+    : [];
+
+  let correctedSentence = asString(raw.correctedSentence);
+
+  if (segments.length === 0 && correctedSentence === undefined) {
+    throw new MalformedResponseError(['Response has neither segments nor a corrected sentence']);
+  }
+
+  if (segments.length === 0) {
+    issues.push('Missing segments');
+    segments = [{ text: originalText, isError: false }];
+  }
+
+  if (correctedSentence === undefined) {
+    issues.push('Rebuilt corrected sentence from segments');
+    correctedSentence = segments.map(s => (s.isError && s.correction !== undefined ? s.correction : s.text)).join('');
+  }
+
+  const analysis: GrammarAnalysis = {
+    segments,
+    correctedSentence,
+    correctedWords: normalizeWords(raw.correctedWords, correctedSentence, issues),
+    explanation: normalizeExplanation(raw.explanation, issues)
+  };
+
+  if (isObject(raw.explanationEnglish)) {
+    analysis.explanationEnglish = normalizeExplanation(raw.explanationEnglish, issues);
+  }
+
+  const detectedLanguage = normalizeLanguageCode(raw.detectedLanguage);
+  if (detectedLanguage) analysis.detectedLanguage = detectedLanguage;
+
+  if (issues.length > 0) {
+    console.warn("Repaired grammar response:", issues);
+  }
+
+  return analysis;
+};
+
+export const validateRewriteAnalysis = (raw: unknown, originalText: string, style: RewriteStyle): RewriteAnalysis => {
+  if (!isObject(raw)) {
+    throw new MalformedResponseError(['Response is not a JSON object']);
+  }
+
+  const rewrittenText = asString(raw.rewrittenText);
+  if (!rewrittenText || !rewrittenText.trim()) {
+    throw new MalformedResponseError(['Response has no rewritten text']);
+  }
+
+  const issues: string[] = [];
+  const analysis: RewriteAnalysis = {
+    originalText,
+    rewrittenText,
+    rewrittenWords: normalizeWords(raw.rewrittenWords, rewrittenText, issues),
+    style,
+    explanation: normalizeExplanation(raw.explanation, issues)
+  };
+
+  if (isObject(raw.explanationEnglish)) {
+    analysis.explanationEnglish = normalizeExplanation(raw.explanationEnglish, issues);
+  }
+
+  if (issues.length > 0) {
+    console.warn("Repaired rewrite response:", issues);
+  }
+
+  return analysis;
+};
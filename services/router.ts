@@ -0,0 +1,80 @@
+import { ViewMode } from "../types";
+
+// URL routes for the views, the dictionary and prefilled checks. Routes live in the hash
+// (#/profile, #/dictionary/serendipity, #/check?text=...) so every link is served by the same
+// index.html, whatever the host's rewrites, and works offline from the service worker's shell.
+
+export type Route =
+  | { type: 'view'; view: ViewMode }
+  | { type: 'dictionary'; term: string }
+  | { type: 'check'; text: string };
+
+const VIEWS: ViewMode[] = ['checker', 'menu', 'profile', 'settings', 'review', 'vocabulary'];
+
+export const DEFAULT_ROUTE: Route = { type: 'view', view: 'checker' };
+
+// How many of the app's own entries sit below the current one. Closing the dictionary steps
+// back when it was opened in the app, rather than stacking another entry on top.
+interface RouteState {
+  depth: number;
+}
+
+const currentDepth = (): number => (window.history.state as RouteState | null)?.depth ?? 0;
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment; // A hand-typed '%' that isn't an escape
+  }
+};
+
+// Anything unrecognised falls back to the checker rather than an empty screen
+export const parseRoute = (hash: string): Route => {
+  const path = hash.replace(/^#\/?/, '');
+  const queryStart = path.indexOf('?');
+  const [name, ...rest] = (queryStart === -1 ? path : path.slice(0, queryStart)).split('/');
+  const query = new URLSearchParams(queryStart === -1 ? '' : path.slice(queryStart + 1));
+
+  if (name === 'dictionary') {
+    const term = decodeSegment(rest.join('/')).trim();
+    return term ? { type: 'dictionary', term } : DEFAULT_ROUTE;
+  }
+
+  if (name === 'check') {
+    const text = query.get('text') ?? '';
+    return text.trim() ? { type: 'check', text } : DEFAULT_ROUTE;
+  }
+
+  return VIEWS.includes(name as ViewMode) ? { type: 'view', view: name as ViewMode } : DEFAULT_ROUTE;
+};
+
+export const routeToHash = (route: Route): string => {
+  switch (route.type) {
+    case 'dictionary':
+      return `#/dictionary/${encodeURIComponent(route.term)}`;
+    case 'check':
+      return `#/check?${new URLSearchParams({ text: route.text })}`;
+    default:
+      return `#/${route.view}`;
+  }
+};
+
+export const getCurrentRoute = (): Route => parseRoute(window.location.hash);
+
+// Adds a history entry, so the back button returns to where the user was. Like any
+// pushState, it doesn't fire popstate: the caller updates the UI itself.
+export const pushRoute = (route: Route): void => {
+  const hash = routeToHash(route);
+  if (hash === window.location.hash) return;
+  const state: RouteState = { depth: currentDepth() + 1 };
+  window.history.pushState(state, '', hash);
+};
+
+export const replaceRoute = (route: Route): void => {
+  const state: RouteState = { depth: currentDepth() };
+  window.history.replaceState(state, '', routeToHash(route));
+};
+
+// False on the first entry, e.g. when the app was opened from a link
+export const canGoBack = (): boolean => currentDepth() > 0;
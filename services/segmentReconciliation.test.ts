@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Segment } from '../types';
+import { reconcileSegments } from './segmentReconciliation';
+
+const plain = (text: string): Segment => ({ text, isError: false });
+const flagged = (text: string, correction: string): Segment => ({ text, isError: true, severity: 'critical', correction });
+
+describe('reconcileSegments', () => {
+  it('passes exact segments through with their offsets', () => {
+    const input = 'She go to school.';
+    const { segments, alignment } = reconcileSegments(input, [plain('She '), flagged('go', 'goes'), plain(' to school.')]);
+
+    expect(alignment).toEqual({ status: 'exact', unresolved: [] });
+    expect(segments.map(s => s.text)).toEqual(['She ', 'go', ' to school.']);
+    expect(segments[1]).toMatchObject({ start: 4, end: 6, correction: 'goes' });
+  });
+
+  it('re-anchors segments whose whitespace and casing drifted', () => {
+    const input = 'Yesterday  I  Go to the park.';
+    const { segments, alignment } = reconcileSegments(input, [plain('Yesterday I '), flagged('go', 'went'), plain(' to the park.')]);
+
+    expect(alignment.status).toBe('reanchored');
+    expect(segments.map(s => s.text).join('')).toBe(input);
+    const error = segments.find(s => s.isError);
+    expect(error).toMatchObject({ text: 'Go', correction: 'went' });
+    expect(input.slice(error?.start, error?.end)).toBe('Go');
+  });
+
+  it('does not anchor a flagged word inside a longer one', () => {
+    // The model's version puts "is" where "This" ends in the input
+    const input = 'This is fine.';
+    const { segments } = reconcileSegments(input, [plain('Th'), flagged('is', 'was'), plain(' fine.')]);
+
+    const error = segments.find(s => s.isError);
+    expect(error).toMatchObject({ text: 'is', start: 5, end: 7 });
+  });
+
+  it('picks the repeated token nearest the model offset', () => {
+    const input = 'I go home and go out.';
+    const { segments } = reconcileSegments(input, [plain('I  go home and '), flagged('go', 'went'), plain(' out.')]);
+
+    const error = segments.find(s => s.isError);
+    expect(error).toMatchObject({ start: 14, end: 16 });
+  });
+
+  it('reports flagged segments missing from the input', () => {
+    const input = 'He runs fast.';
+    const { segments, alignment } = reconcileSegments(input, [plain('He '), flagged('walks', 'walk'), plain(' fast.')]);
+
+    expect(alignment.status).toBe('mismatch');
+    expect(alignment.unresolved).toEqual(['walks']);
+    expect(segments.map(s => s.text).join('')).toBe(input);
+    expect(segments.some(s => s.isError)).toBe(false);
+  });
+});
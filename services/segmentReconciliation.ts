@@ -0,0 +1,122 @@
+import { GrammarAnalysis, Segment, SegmentAlignment } from "../types";
+
+// The model is asked to split the ORIGINAL text into segments, but it sometimes rewrites
+// spacing, casing or whole words while doing so. These helpers rebuild the segment list
+// from the real input so every highlight sits on characters the user actually typed.
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+
+// False when the span starts or ends in the middle of a word, like "is" inside "This"
+const onWordBoundaries = (haystack: string, span: Span): boolean =>
+  !(isWordChar(haystack[span.start - 1]) && isWordChar(haystack[span.start])) &&
+  !(isWordChar(haystack[span.end - 1]) && isWordChar(haystack[span.end]));
+
+const exactMatches = (haystack: string, needle: string, from: number): Span[] => {
+  const spans: Span[] = [];
+  for (let index = haystack.indexOf(needle, from); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+    spans.push({ start: index, end: index + needle.length });
+  }
+  return spans;
+};
+
+// Ignoring case, surrounding whitespace and differences in inner whitespace
+const looseMatches = (haystack: string, needle: string, from: number): Span[] => {
+  const words = needle.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const pattern = new RegExp(words.map(escapeRegExp).join('\\s+'), 'giu');
+  pattern.lastIndex = from;
+  const spans: Span[] = [];
+  for (let match = pattern.exec(haystack); match; match = pattern.exec(haystack)) {
+    spans.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return spans;
+};
+
+// Locates `needle` in `haystack` at or after `from`. Whole-word matches win over ones inside
+// a longer word, exact ones over loose ones, and among equals the one nearest `expected`,
+// where the model's own segments put it.
+const locate = (haystack: string, needle: string, from: number, expected: number): Span | null => {
+  if (!needle) return null;
+
+  const exact = exactMatches(haystack, needle, from);
+  const loose = looseMatches(haystack, needle, from);
+  const tiers = [
+    exact.filter(span => onWordBoundaries(haystack, span)),
+    loose.filter(span => onWordBoundaries(haystack, span)),
+    exact,
+    loose
+  ];
+
+  const candidates = tiers.find(tier => tier.length > 0);
+  if (!candidates) return null;
+
+  return candidates.reduce((best, span) =>
+    Math.abs(span.start - expected) < Math.abs(best.start - expected) ? span : best
+  );
+};
+
+const withOffsets = (segments: Segment[]): Segment[] => {
+  let offset = 0;
+  return segments.map(segment => {
+    const start = offset;
+    offset += segment.text.length;
+    return { ...segment, start, end: offset };
+  });
+};
+
+export const reconcileSegments = (input: string, segments: Segment[]): { segments: Segment[]; alignment: SegmentAlignment } => {
+  if (segments.map(s => s.text).join('') === input) {
+    return { segments: withOffsets(segments), alignment: { status: 'exact', unresolved: [] } };
+  }
+
+  const reconciled: Segment[] = [];
+  const unresolved: string[] = [];
+  let cursor = 0;
+
+  const pushPlain = (end: number) => {
+    if (end > cursor) {
+      reconciled.push({ text: input.slice(cursor, end), isError: false, start: cursor, end });
+    }
+  };
+
+  // Where each segment starts in the model's version of the text
+  const reported = withOffsets(segments);
+
+  // Only flagged segments carry information; plain text is re-derived from the input
+  reported.filter(s => s.isError).forEach(segment => {
+    const span = locate(input, segment.text, cursor, segment.start ?? cursor);
+    if (!span) {
+      unresolved.push(segment.text);
+      return;
+    }
+
+    pushPlain(span.start);
+    reconciled.push({ ...segment, text: input.slice(span.start, span.end), start: span.start, end: span.end });
+    cursor = span.end;
+  });
+
+  pushPlain(input.length);
+
+  return {
+    segments: reconciled,
+    alignment: { status: unresolved.length > 0 ? 'mismatch' : 'reanchored', unresolved }
+  };
+};
+
+export const reconcileAnalysis = (input: string, analysis: GrammarAnalysis): GrammarAnalysis => {
+  const { segments, alignment } = reconcileSegments(input, analysis.segments);
+
+  if (alignment.status === 'mismatch') {
+    console.warn("Could not anchor flagged segments to the input:", alignment.unresolved);
+  }
+
+  return { ...analysis, segments, alignment };
+};
@@ -0,0 +1,78 @@
+import { computeBuildVersion } from "./version";
+
+// Registers sw.js for the build that is currently deployed and reports when it has installed
+// and is waiting. The new worker only takes over once `applyUpdate` is called, after which
+// the page reloads so code and caches switch together.
+
+let isRegistered = false;
+let isReloading = false;
+let watchedRegistration: ServiceWorkerRegistration | null = null;
+
+const reloadWhenControllerChanges = () => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (isReloading) return;
+    isReloading = true;
+    window.location.reload();
+  });
+};
+
+// Asks the server, past every cache, which build it serves now. Null when it can't be
+// reached, in which case whatever worker is installed stays in charge.
+const fetchBuildVersion = async (): Promise<string | null> => {
+  try {
+    const response = await fetch('/index.html', { cache: 'no-store' });
+    if (!response.ok) return null;
+    return await computeBuildVersion(await response.text());
+  } catch {
+    return null;
+  }
+};
+
+export const registerServiceWorker = (onUpdateReady: (applyUpdate: () => void) => void): void => {
+  if (isRegistered || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  isRegistered = true;
+
+  const offerUpdate = (worker: ServiceWorker) => onUpdateReady(() => {
+    reloadWhenControllerChanges();
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  const watch = (registration: ServiceWorkerRegistration) => {
+    // Installed during an earlier visit and still waiting for the old build's tabs
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      offerUpdate(registration.waiting);
+    }
+
+    if (watchedRegistration === registration) return;
+    watchedRegistration = registration;
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      if (!worker) return;
+      worker.addEventListener('statechange', () => {
+        // Without a controller this is the first install, which takes over on its own
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          offerUpdate(worker);
+        }
+      });
+    });
+  };
+
+  // A new build means a new worker URL, and registering it installs that worker next to the
+  // running one
+  const register = async () => {
+    const version = await fetchBuildVersion();
+    if (!version) return;
+    try {
+      watch(await navigator.serviceWorker.register(`/sw.js?v=${encodeURIComponent(version)}`));
+    } catch (error) {
+      console.error("Service worker registration failed:", error);
+    }
+  };
+
+  register();
+
+  // Long-lived tabs look for a new deploy whenever they come back to the foreground
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') register();
+  });
+};
@@ -0,0 +1,51 @@
+// Sharing in both directions. Installed as a PWA, the app is a share target (see
+// manifest.json): the browser opens it with the shared content in the query string, under
+// parameter names no other link to the app uses. Results go out through the native share
+// sheet, or the clipboard where there isn't one.
+
+const SHARE_PARAMS = { title: 'share_title', text: 'share_text', url: 'share_url' };
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+// Apps disagree on where they put the message: most send it as text, some only as a title,
+// and links often arrive in text as well as url. A link on its own has nothing to check.
+export const readSharedText = (search: string = window.location.search): string | null => {
+  const params = new URLSearchParams(search);
+  const title = params.get(SHARE_PARAMS.title)?.trim() ?? '';
+  const text = params.get(SHARE_PARAMS.text)?.trim() ?? '';
+  const url = params.get(SHARE_PARAMS.url)?.trim() ?? '';
+
+  const message = text || title;
+  if (!message) return null;
+  return url && !message.includes(url) ? `${message}\n${url}` : message;
+};
+
+// So a reload doesn't check the same shared text again
+export const clearShareParams = (): void => {
+  const url = new URL(window.location.href);
+  Object.values(SHARE_PARAMS).forEach(param => url.searchParams.delete(param));
+  window.history.replaceState(window.history.state, '', url.pathname + url.search + url.hash);
+};
+
+export const shareText = async (text: string, title?: string): Promise<ShareOutcome> => {
+  const data: ShareData = title ? { title, text } : { text };
+
+  if (typeof navigator.share === 'function' && (!navigator.canShare || navigator.canShare(data))) {
+    try {
+      await navigator.share(data);
+      return 'shared';
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; anything else falls back to copying
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      console.error("Native share failed:", error);
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(text);
+    return 'copied';
+  } catch (error) {
+    console.error("Failed to copy shared text:", error);
+    return 'failed';
+  }
+};
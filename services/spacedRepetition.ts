@@ -0,0 +1,90 @@
+import { GrammarAnalysis, ReviewCard, ReviewGrade, ReviewQuizMode } from "../types";
+
+// SM-2 scheduling for the review deck, plus turning a grammar check's mistakes into cards.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const CONTEXT_MAX_LENGTH = 80;
+
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now = Date.now()): ReviewCard => {
+  let { interval, repetitions, lapses } = card;
+
+  if (grade < 3) {
+    // Forgotten: start the card over, but keep its ease history
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * card.easeFactor);
+  }
+
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return {
+    ...card,
+    interval,
+    repetitions,
+    lapses,
+    easeFactor,
+    lastReviewedAt: now,
+    dueAt: now + interval * DAY_MS
+  };
+};
+
+// New cards are recognised first (pick the correct form) and produced from memory afterwards
+export const getQuizMode = (card: ReviewCard): ReviewQuizMode => (card.repetitions === 0 ? 'choose' : 'fix');
+
+export const getDueCards = (deck: ReviewCard[], now = Date.now()): ReviewCard[] =>
+  deck.filter(card => card.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+
+// Loose comparison for typed answers: case, spacing and trailing punctuation don't matter
+export const normalizeAnswer = (text: string): string =>
+  text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ').replace(/[\s.!?…]+$/, '').trim();
+
+export const isCorrectFix = (card: ReviewCard, answer: string): boolean =>
+  normalizeAnswer(answer) === normalizeAnswer(`${card.contextBefore}${card.correction}${card.contextAfter}`);
+
+// Cuts the sentence around [start, end) out of the text, capped so cards stay short
+const getSentenceContext = (text: string, start: number, end: number) => {
+  const boundary = /[.!?…\n]/;
+  let from = start;
+  while (from > 0 && !boundary.test(text[from - 1]) && start - from < CONTEXT_MAX_LENGTH) from--;
+  let to = end;
+  while (to < text.length && !boundary.test(text[to]) && to - end < CONTEXT_MAX_LENGTH) to++;
+  if (to < text.length && boundary.test(text[to]) && text[to] !== '\n') to++;
+
+  return {
+    contextBefore: text.slice(from, start).trimStart(),
+    contextAfter: text.slice(end, to).trimEnd()
+  };
+};
+
+// Critical mistakes with a concrete correction become cards. Whitespace-only fixes are skipped.
+export const createCardsFromAnalysis = (text: string, analysis: GrammarAnalysis, now = Date.now()): ReviewCard[] =>
+  analysis.segments
+    .filter(segment =>
+      segment.isError &&
+      (segment.severity === 'critical' || !segment.severity) &&
+      segment.correction !== undefined &&
+      segment.correction.trim() !== segment.text.trim() &&
+      segment.start !== undefined &&
+      segment.end !== undefined
+    )
+    .map(segment => ({
+      id: crypto.randomUUID(),
+      original: segment.text,
+      correction: segment.correction as string,
+      reason: segment.reason,
+      category: segment.category,
+      ...getSentenceContext(text, segment.start as number, segment.end as number),
+      createdAt: now,
+      dueAt: now,
+      interval: 0,
+      repetitions: 0,
+      easeFactor: INITIAL_EASE,
+      lapses: 0
+    }));
@@ -1,12 +1,26 @@
-import { GrammarAnalysis, HistoryEntry, UserStats, RewriteAnalysis, AppColor, Theme } from "../types";
+import { GrammarAnalysis, HistoryEntry, UserStats, RewriteAnalysis, RewriteStyle, AppColor, Theme, AIProviderSettings, CategoryStat, ErrorCategory, ReviewCard, VocabularyEntry, DictionaryEntry, CorrectionDecisions, TargetLanguage } from "../types";
+import { createCardsFromAnalysis } from "./spacedRepetition";
+import {
+  HISTORY_STORE,
+  REVIEW_DECK_STORE,
+  VOCABULARY_STORE,
+  META_STORE,
+  withStore,
+  requestToPromise,
+  collectCursor
+} from "./db";
+import { APP_VERSION } from "./version";
 
-const STORAGE_KEY = 'grammarguard_history';
-const STATE_KEY = 'grammarguard_app_state';
 const API_KEY_STORAGE_KEY = 'grammarguard_api_key';
-const VERSION_KEY = 'grammarguard_version';
+const PROVIDER_SETTINGS_KEY = 'grammarguard_provider_settings';
+const DAILY_BUDGET_KEY = 'grammarguard_daily_budget';
+const APP_STATE_KEY = 'appState';
 
-// Must match package.json version to trigger migrations/clearing
-const CURRENT_VERSION = '1.0.3';
+// Oldest entries are pruned beyond this many, so history can't grow without bound
+const HISTORY_LIMIT = 5000;
+
+// Category trends compare the latest checks against the same number of checks before them
+const TREND_WINDOW = 10;
 
 interface AppState {
   inputText: string;
@@ -15,14 +29,63 @@ interface AppState {
   colorScheme: AppColor;
 }
 
+export interface HistoryQuery {
+  type?: HistoryEntry['type'];
+  since?: number; // Inclusive timestamp bounds
+  until?: number;
+  limit?: number;
+}
+
+export type HistorySort = 'newest' | 'oldest' | 'most-errors' | 'fewest-errors';
+
+export interface HistorySearch extends Omit<HistoryQuery, 'limit'> {
+  text?: string; // Matches original, corrected and rewritten text; every word must appear
+  rewriteStyle?: RewriteStyle;
+  outcome?: 'perfect' | 'errors';
+  category?: ErrorCategory;
+  sort?: HistorySort;
+  page?: number; // Zero-based
+  pageSize?: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number; // Matches across all pages
+}
+
+// Vocabulary records carry a normalized copy of the word, prefixed with its language, for the
+// unique lookup index
+type StoredVocabularyEntry = VocabularyEntry & { wordKey: string };
+
+const toWordKey = (word: string, language: TargetLanguage) => `${language}:${word.trim().toLowerCase()}`;
+
+const toSnippet = (content: string) => (content.length > 60 ? content.substring(0, 60) + '...' : content);
+
 // --- History & State Management ---
 
-export const saveHistory = (text: string, analysis: GrammarAnalysis): void => {
+const addHistoryEntry = (entry: HistoryEntry): Promise<void> =>
+  withStore(HISTORY_STORE, 'readwrite', async store => {
+    store.put(entry);
+
+    const count = await requestToPromise(store.count());
+    if (count <= HISTORY_LIMIT) return;
+
+    // Oldest first, so the cursor walks exactly the entries that fall over the limit
+    const oldest = await collectCursor<HistoryEntry>(store.index('timestamp').openCursor(), count - HISTORY_LIMIT);
+    oldest.forEach(old => store.delete(old.id));
+  });
+
+export const saveHistory = async (text: string, analysis: GrammarAnalysis): Promise<string | null> => {
   try {
-    const history = getHistory();
-    
     const errorCount = analysis.segments.filter(s => s.isError && (s.severity === 'critical' || !s.severity)).length;
     const suggestionCount = analysis.segments.filter(s => s.isError && s.severity === 'suggestion').length;
+
+    const categoryCounts: Partial<Record<ErrorCategory, number>> = {};
+    analysis.segments.forEach(s => {
+      if (!s.isError) return;
+      const category = s.category || 'other';
+      categoryCounts[category] = (categoryCounts[category] || 0) + 1;
+    });
     
     // Use corrected sentence for the history snippet
     const content = analysis.correctedSentence || text;
@@ -30,50 +93,64 @@ export const saveHistory = (text: string, analysis: GrammarAnalysis): void => {
     const newEntry: HistoryEntry = {
       id: crypto.randomUUID(),
       timestamp: Date.now(),
-      textSnippet: content.length > 60 ? content.substring(0, 60) + '...' : content,
+      textSnippet: toSnippet(content),
       fullText: content,
       errorCount: errorCount,
       suggestionCount: suggestionCount,
       isPerfect: errorCount === 0 && suggestionCount === 0,
-      type: 'grammar'
+      type: 'grammar',
+      categoryCounts,
+      originalText: text,
+      analysis
     };
 
-    const updatedHistory = [newEntry, ...history];
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedHistory));
+    await addHistoryEntry(newEntry);
+    return newEntry.id;
   } catch (error) {
     console.error("Failed to save history:", error);
+    return null;
   }
 };
 
-export const saveRewriteHistory = (_text: string, analysis: RewriteAnalysis): void => {
+export const updateHistoryDecisions = async (
+  id: string,
+  decisions: { acceptedCount: number; rejectedCount: number; finalText: string; decisions: CorrectionDecisions }
+): Promise<void> => {
+  try {
+    await withStore(HISTORY_STORE, 'readwrite', async store => {
+      const entry = await requestToPromise<HistoryEntry | undefined>(store.get(id));
+      if (entry) store.put({ ...entry, ...decisions });
+    });
+  } catch (error) {
+    console.error("Failed to update history decisions:", error);
+  }
+};
+
+export const saveRewriteHistory = async (text: string, analysis: RewriteAnalysis): Promise<void> => {
   try {
-    const history = getHistory();
     const content = analysis.rewrittenText;
 
-    const newEntry: HistoryEntry = {
+    await addHistoryEntry({
       id: crypto.randomUUID(),
       timestamp: Date.now(),
-      textSnippet: content.length > 60 ? content.substring(0, 60) + '...' : content,
+      textSnippet: toSnippet(content),
       fullText: content,
       errorCount: 0,
       suggestionCount: 0,
       isPerfect: true, // Rewrites are considered valid/perfect results
       type: 'rewrite',
-      rewriteStyle: analysis.style
-    };
-
-    const updatedHistory = [newEntry, ...history];
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedHistory));
+      rewriteStyle: analysis.style,
+      originalText: text,
+      rewriteAnalysis: analysis
+    });
   } catch (error) {
     console.error("Failed to save rewrite history:", error);
   }
 };
 
-export const saveDictionaryHistory = (term: string): void => {
+export const saveDictionaryHistory = async (term: string): Promise<void> => {
   try {
-    const history = getHistory();
-    
-    const newEntry: HistoryEntry = {
+    await addHistoryEntry({
       id: crypto.randomUUID(),
       timestamp: Date.now(),
       textSnippet: term,
@@ -82,34 +159,143 @@ export const saveDictionaryHistory = (term: string): void => {
       suggestionCount: 0,
       isPerfect: true,
       type: 'dictionary'
-    };
-
-    const updatedHistory = [newEntry, ...history];
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedHistory));
+    });
   } catch (error) {
     console.error("Failed to save dictionary history:", error);
   }
 };
 
-export const getHistory = (): HistoryEntry[] => {
+// Newest first. Type and date filters run on the IndexedDB indexes rather than in memory.
+export const getHistory = async (query: HistoryQuery = {}): Promise<HistoryEntry[]> => {
+  const since = query.since ?? 0;
+  const until = query.until ?? Infinity;
+
   try {
-    const item = localStorage.getItem(STORAGE_KEY);
-    return item ? JSON.parse(item) : [];
-  } catch (e) {
-    console.error("Failed to parse history", e);
+    return await withStore(HISTORY_STORE, 'readonly', store => {
+      const request = query.type
+        ? store.index('type_timestamp').openCursor(IDBKeyRange.bound([query.type, since], [query.type, until]), 'prev')
+        : store.index('timestamp').openCursor(IDBKeyRange.bound(since, until), 'prev');
+      return collectCursor<HistoryEntry>(request, query.limit);
+    });
+  } catch (error) {
+    console.error("Failed to load history:", error);
     return [];
   }
 };
 
-export const clearHistory = (): void => {
-  localStorage.removeItem(STORAGE_KEY);
+const getSearchableText = (entry: HistoryEntry) =>
+  [entry.originalText, entry.fullText, entry.finalText, entry.textSnippet, entry.rewriteAnalysis?.rewrittenText]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+const matchesSearch = (entry: HistoryEntry, search: HistorySearch, terms: string[]) => {
+  if (search.rewriteStyle && entry.rewriteStyle !== search.rewriteStyle) return false;
+  // Outcome only means something for grammar checks; rewrites and lookups are stored as "perfect"
+  if (search.outcome && entry.type !== 'grammar') return false;
+  if (search.outcome === 'perfect' && !entry.isPerfect) return false;
+  if (search.outcome === 'errors' && entry.isPerfect) return false;
+  if (search.category && !entry.categoryCounts?.[search.category]) return false;
+  if (terms.length > 0) {
+    const haystack = getSearchableText(entry);
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+  return true;
+};
+
+const getIssueCount = (entry: HistoryEntry) => entry.errorCount + entry.suggestionCount;
+
+// Filtered, sorted and paginated history for the Profile table. Type and date bounds use the
+// indexes; the remaining filters run on the cursor so non-matching entries are never collected.
+export const queryHistory = async (search: HistorySearch = {}): Promise<HistoryPage> => {
+  const since = search.since ?? 0;
+  const until = search.until ?? Infinity;
+  const sort = search.sort ?? 'newest';
+  const pageSize = search.pageSize ?? 20;
+  const page = Math.max(0, search.page ?? 0);
+  const terms = (search.text || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  try {
+    const matches = await withStore(HISTORY_STORE, 'readonly', store => {
+      const direction: IDBCursorDirection = sort === 'oldest' ? 'next' : 'prev';
+      const request = search.type
+        ? store.index('type_timestamp').openCursor(IDBKeyRange.bound([search.type, since], [search.type, until]), direction)
+        : store.index('timestamp').openCursor(IDBKeyRange.bound(since, until), direction);
+
+      return new Promise<HistoryEntry[]>((resolve, reject) => {
+        const values: HistoryEntry[] = [];
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve(values);
+            return;
+          }
+          if (matchesSearch(cursor.value, search, terms)) values.push(cursor.value);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    });
+
+    // Error sorts fall back to newest first among equal counts (the cursor order)
+    if (sort === 'most-errors') matches.sort((a, b) => getIssueCount(b) - getIssueCount(a));
+    if (sort === 'fewest-errors') matches.sort((a, b) => getIssueCount(a) - getIssueCount(b));
+
+    return {
+      entries: matches.slice(page * pageSize, (page + 1) * pageSize),
+      total: matches.length
+    };
+  } catch (error) {
+    console.error("Failed to query history:", error);
+    return { entries: [], total: 0 };
+  }
+};
+
+export const clearHistory = async (): Promise<void> => {
+  try {
+    await withStore(HISTORY_STORE, 'readwrite', store => {
+      store.clear();
+    });
+  } catch (error) {
+    console.error("Failed to clear history:", error);
+  }
+};
+
+// Per-category totals plus how often each category shows up per check, recent vs. earlier.
+// Entries saved before categories existed are skipped.
+const getCategoryStats = (grammarHistory: HistoryEntry[]): CategoryStat[] => {
+  const categorized = grammarHistory.filter(h => h.categoryCounts);
+  const recent = categorized.slice(0, TREND_WINDOW);
+  const previous = categorized.slice(TREND_WINDOW, TREND_WINDOW * 2);
+
+  const totals = new Map<ErrorCategory, number>();
+  categorized.forEach(entry => {
+    Object.entries(entry.categoryCounts!).forEach(([category, count]) => {
+      totals.set(category as ErrorCategory, (totals.get(category as ErrorCategory) || 0) + (count || 0));
+    });
+  });
+
+  const rateOf = (entries: HistoryEntry[], category: ErrorCategory) =>
+    entries.length === 0 ? 0 : entries.reduce((sum, entry) => sum + (entry.categoryCounts?.[category] || 0), 0) / entries.length;
+
+  return Array.from(totals.entries())
+    .filter(([, count]) => count > 0)
+    .map(([category, count]) => {
+      const recentRate = rateOf(recent, category);
+      const previousRate = rateOf(previous, category);
+      let trend: CategoryStat['trend'] = 'steady';
+      if (previous.length > 0) {
+        if (recentRate < previousRate - 0.1) trend = 'improving';
+        else if (recentRate > previousRate + 0.1) trend = 'worsening';
+      }
+      return { category, count, recentRate, previousRate, trend };
+    })
+    .sort((a, b) => b.count - a.count);
 };
 
-export const getStats = (): UserStats => {
-  const history = getHistory();
-  // Filter for grammar checks mainly, or include all? 
-  // Standard stats usually apply to grammar checking accuracy.
-  const grammarHistory = history.filter(h => h.type === 'grammar' || !h.type);
+export const getStats = async (): Promise<UserStats> => {
+  // Stats apply to grammar checking accuracy only
+  const grammarHistory = await getHistory({ type: 'grammar' });
   
   const totalChecks = grammarHistory.length;
   
@@ -118,31 +304,39 @@ export const getStats = (): UserStats => {
       totalChecks: 0,
       totalErrors: 0,
       accuracyRate: 0,
-      perfectRuns: 0
+      perfectRuns: 0,
+      acceptedCorrections: 0,
+      rejectedCorrections: 0,
+      categoryStats: []
     };
   }
 
   const totalErrors = grammarHistory.reduce((sum, item) => sum + item.errorCount, 0);
   const perfectRuns = grammarHistory.filter(item => item.isPerfect).length;
+  const acceptedCorrections = grammarHistory.reduce((sum, item) => sum + (item.acceptedCount || 0), 0);
+  const rejectedCorrections = grammarHistory.reduce((sum, item) => sum + (item.rejectedCount || 0), 0);
   
   return {
     totalChecks,
     totalErrors,
     accuracyRate: Math.round((perfectRuns / totalChecks) * 100),
-    perfectRuns
+    perfectRuns,
+    acceptedCorrections,
+    rejectedCorrections,
+    categoryStats: getCategoryStats(grammarHistory)
   };
 };
 
-export const exportHistoryJSON = (): void => {
-  const history = localStorage.getItem(STORAGE_KEY) || '[]';
+export const exportHistoryJSON = async (): Promise<void> => {
+  const history = await getHistory();
   const theme = localStorage.getItem('grammarguard_theme');
   const colorScheme = localStorage.getItem('grammarguard_color_scheme');
 
   const exportData = {
-    history: JSON.parse(history),
+    history: history,
     theme: theme,
     colorScheme: colorScheme,
-    version: CURRENT_VERSION
+    version: APP_VERSION // So future versions know which format they are importing
   };
 
   const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -156,73 +350,65 @@ export const exportHistoryJSON = (): void => {
   URL.revokeObjectURL(url);
 };
 
-export const importHistoryJSON = async (file: File): Promise<{success: boolean, theme?: Theme, colorScheme?: AppColor}> => {
-  return new Promise((resolve) => {
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const parsed = JSON.parse(content);
-        
-        let historyToMerge: HistoryEntry[] = [];
-        let importedTheme: Theme | undefined;
-        let importedColor: AppColor | undefined;
-
-        if (Array.isArray(parsed)) {
-          // Legacy format
-          historyToMerge = parsed;
-        } else if (parsed.history && Array.isArray(parsed.history)) {
-          // New format
-          historyToMerge = parsed.history;
-          importedTheme = parsed.theme as Theme;
-          importedColor = parsed.colorScheme as AppColor;
-        } else {
-          resolve({ success: false });
-          return;
-        }
-
-        // Merge strategy: unique IDs
-        const current = getHistory();
-        const currentIds = new Set(current.map(x => x.id));
-        // Filter out entries that already exist
-        const newEntries = historyToMerge.filter((x: any) => x.id && !currentIds.has(x.id));
-        
-        const merged = [...newEntries, ...current].sort((a, b) => b.timestamp - a.timestamp);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(merged));
-        
-        resolve({ success: true, theme: importedTheme, colorScheme: importedColor });
-
-      } catch (err) {
-        console.error("Import error", err);
-        resolve({ success: false });
-      }
-    };
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
     reader.readAsText(file);
   });
+
+export const importHistoryJSON = async (file: File): Promise<{success: boolean, theme?: Theme, colorScheme?: AppColor}> => {
+  try {
+    const parsed = JSON.parse(await readFileText(file));
+    
+    let historyToMerge: HistoryEntry[] = [];
+    let importedTheme: Theme | undefined;
+    let importedColor: AppColor | undefined;
+
+    if (Array.isArray(parsed)) {
+      // Legacy format
+      historyToMerge = parsed;
+    } else if (parsed.history && Array.isArray(parsed.history)) {
+      // New format
+      historyToMerge = parsed.history;
+      importedTheme = parsed.theme as Theme;
+      importedColor = parsed.colorScheme as AppColor;
+    } else {
+      return { success: false };
+    }
+
+    // Merge strategy: unique IDs, existing entries win
+    await withStore(HISTORY_STORE, 'readwrite', async store => {
+      const currentIds = new Set(await requestToPromise(store.getAllKeys()));
+      historyToMerge
+        .filter((x: any) => x && x.id && typeof x.timestamp === 'number' && !currentIds.has(x.id))
+        .forEach(entry => store.put({ ...entry, type: entry.type || 'grammar' }));
+    });
+    
+    return { success: true, theme: importedTheme, colorScheme: importedColor };
+  } catch (err) {
+    console.error("Import error", err);
+    return { success: false };
+  }
 };
 
-export const saveAppState = (state: AppState): void => {
+export const saveAppState = async (state: AppState): Promise<void> => {
   try {
-    localStorage.setItem(STATE_KEY, JSON.stringify(state));
+    await withStore(META_STORE, 'readwrite', store => {
+      store.put(state, APP_STATE_KEY);
+    });
   } catch (error) {
     console.error("Failed to save app state:", error);
   }
 };
 
-export const getAppState = (): AppState | null => {
-  // Version Check: If version mismatches, clear potentially incompatible state
-  const storedVersion = localStorage.getItem(VERSION_KEY);
-  if (storedVersion !== CURRENT_VERSION) {
-    console.log(`Detected update: ${storedVersion} -> ${CURRENT_VERSION}. Clearing volatile app state.`);
-    localStorage.removeItem(STATE_KEY);
-    // Note: We deliberately preserve HISTORY and API KEY as they are valuable user data.
-    localStorage.setItem(VERSION_KEY, CURRENT_VERSION);
-    return null;
-  }
-
+export const getAppState = async (): Promise<AppState | null> => {
   try {
-    const item = localStorage.getItem(STATE_KEY);
-    return item ? JSON.parse(item) : null;
+    const state = await withStore(META_STORE, 'readonly', store =>
+      requestToPromise<AppState | undefined>(store.get(APP_STATE_KEY))
+    );
+    return state ?? null;
   } catch (error) {
     console.error("Failed to load app state:", error);
     return null;
@@ -252,4 +438,213 @@ export const removeApiKey = (): void => {
   } catch (error) {
     console.error("Failed to remove API key:", error);
   }
-};
\ No newline at end of file
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: 'gemini',
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiModel: 'llama3.1'
+};
+
+export const saveProviderSettings = (settings: AIProviderSettings): void => {
+  try {
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save provider settings:", error);
+  }
+};
+
+export const getProviderSettings = (): AIProviderSettings => {
+  try {
+    const item = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    return item ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(item) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch (error) {
+    console.error("Failed to load provider settings:", error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+// Daily spending limit in US dollars of estimated cost; null when the user hasn't set one
+export const getDailyBudget = (): number | null => {
+  try {
+    const value = parseFloat(localStorage.getItem(DAILY_BUDGET_KEY) || '');
+    return Number.isFinite(value) && value > 0 ? value : null;
+  } catch (error) {
+    console.error("Failed to load daily budget:", error);
+    return null;
+  }
+};
+
+export const saveDailyBudget = (budget: number | null): void => {
+  try {
+    if (budget && budget > 0) {
+      localStorage.setItem(DAILY_BUDGET_KEY, String(budget));
+    } else {
+      localStorage.removeItem(DAILY_BUDGET_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to save daily budget:", error);
+  }
+};
+
+// --- Review Deck ---
+
+export const getReviewDeck = async (): Promise<ReviewCard[]> => {
+  try {
+    return await withStore(REVIEW_DECK_STORE, 'readonly', store => requestToPromise<ReviewCard[]>(store.getAll()));
+  } catch (error) {
+    console.error("Failed to load review deck:", error);
+    return [];
+  }
+};
+
+// Adds the critical mistakes of a check to the deck. Repeating a mistake that is already
+// in the deck makes that card due again instead of adding a duplicate.
+export const addReviewCards = async (text: string, analysis: GrammarAnalysis): Promise<number> => {
+  try {
+    return await withStore(REVIEW_DECK_STORE, 'readwrite', async store => {
+      const deck = await requestToPromise<ReviewCard[]>(store.getAll());
+      const now = Date.now();
+      let added = 0;
+
+      createCardsFromAnalysis(text, analysis, now).forEach(card => {
+        const existing = deck.find(c =>
+          c.original.trim().toLowerCase() === card.original.trim().toLowerCase() &&
+          c.correction.trim().toLowerCase() === card.correction.trim().toLowerCase()
+        );
+        if (existing) {
+          existing.dueAt = Math.min(existing.dueAt, now);
+          existing.contextBefore = card.contextBefore;
+          existing.contextAfter = card.contextAfter;
+          store.put(existing);
+        } else {
+          deck.push(card);
+          store.put(card);
+          added++;
+        }
+      });
+
+      return added;
+    });
+  } catch (error) {
+    console.error("Failed to save review cards:", error);
+    return 0;
+  }
+};
+
+export const updateReviewCard = async (card: ReviewCard): Promise<void> => {
+  try {
+    await withStore(REVIEW_DECK_STORE, 'readwrite', store => {
+      store.put(card);
+    });
+  } catch (error) {
+    console.error("Failed to update review card:", error);
+  }
+};
+
+export const deleteReviewCard = async (id: string): Promise<void> => {
+  try {
+    await withStore(REVIEW_DECK_STORE, 'readwrite', store => {
+      store.delete(id);
+    });
+  } catch (error) {
+    console.error("Failed to delete review card:", error);
+  }
+};
+
+// --- Vocabulary Notebook ---
+
+const stripWordKey = ({ wordKey: _wordKey, ...entry }: StoredVocabularyEntry): VocabularyEntry => entry;
+
+// Most recently saved first
+export const getVocabulary = async (): Promise<VocabularyEntry[]> => {
+  try {
+    const stored = await withStore(VOCABULARY_STORE, 'readonly', store =>
+      requestToPromise<StoredVocabularyEntry[]>(store.getAll())
+    );
+    return stored.map(stripWordKey).sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error("Failed to load vocabulary:", error);
+    return [];
+  }
+};
+
+export const getVocabularyWord = async (word: string, language: TargetLanguage): Promise<VocabularyEntry | undefined> => {
+  try {
+    const stored = await withStore(VOCABULARY_STORE, 'readonly', store =>
+      requestToPromise<StoredVocabularyEntry | undefined>(store.index('word').get(toWordKey(word, language)))
+    );
+    return stored ? stripWordKey(stored) : undefined;
+  } catch (error) {
+    console.error("Failed to load vocabulary word:", error);
+    return undefined;
+  }
+};
+
+// Saves a looked-up word, or refreshes it if it is already in the notebook (tags are kept)
+export const saveVocabularyWord = async (
+  word: string,
+  language: TargetLanguage,
+  entries: DictionaryEntry[],
+  generatedExamples: Record<string, string>,
+  sourceSentence?: string
+): Promise<VocabularyEntry | undefined> => {
+  try {
+    return await withStore(VOCABULARY_STORE, 'readwrite', async store => {
+      const wordKey = toWordKey(word, language);
+      const existing = await requestToPromise<StoredVocabularyEntry | undefined>(store.index('word').get(wordKey));
+      const now = Date.now();
+
+      const saved: StoredVocabularyEntry = existing
+        ? {
+            ...existing,
+            entries,
+            generatedExamples: { ...existing.generatedExamples, ...generatedExamples },
+            sourceSentence: sourceSentence || existing.sourceSentence,
+            updatedAt: now
+          }
+        : {
+            id: crypto.randomUUID(),
+            word: word.trim(),
+            language,
+            wordKey,
+            entries,
+            generatedExamples,
+            sourceSentence,
+            tags: [],
+            createdAt: now,
+            updatedAt: now
+          };
+
+      store.put(saved);
+      return stripWordKey(saved);
+    });
+  } catch (error) {
+    console.error("Failed to save vocabulary word:", error);
+    return undefined;
+  }
+};
+
+export const updateVocabularyWord = async (
+  id: string,
+  changes: Partial<Pick<VocabularyEntry, 'tags' | 'generatedExamples'>>
+): Promise<void> => {
+  try {
+    await withStore(VOCABULARY_STORE, 'readwrite', async store => {
+      const entry = await requestToPromise<StoredVocabularyEntry | undefined>(store.get(id));
+      if (entry) store.put({ ...entry, ...changes, updatedAt: Date.now() });
+    });
+  } catch (error) {
+    console.error("Failed to update vocabulary word:", error);
+  }
+};
+
+export const removeVocabularyWord = async (id: string): Promise<void> => {
+  try {
+    await withStore(VOCABULARY_STORE, 'readwrite', store => {
+      store.delete(id);
+    });
+  } catch (error) {
+    console.error("Failed to remove vocabulary word:", error);
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { StreamingPreview } from '../types';
+import { createPreviewReader, parsePartialJson } from './streaming';
+
+describe('parsePartialJson', () => {
+  it('reads complete JSON like JSON.parse', () => {
+    const text = '{"a": "x\\n\\"y\\"", "b": [1, 2.5, -3], "c": {"d": true, "e": false, "f": null}}';
+    expect(parsePartialJson(text)).toEqual(JSON.parse(text));
+  });
+
+  it('keeps a string cut off in the middle', () => {
+    expect(parsePartialJson('{"text": "She goes to sch')).toEqual({ text: 'She goes to sch' });
+  });
+
+  it('drops an escape cut off in the middle', () => {
+    expect(parsePartialJson('{"text": "line\\')).toEqual({ text: 'line' });
+    expect(parsePartialJson('{"text": "caf\\u00')).toEqual({ text: 'caf' });
+    expect(parsePartialJson('{"text": "caf\\u12')).toEqual({ text: 'caf' });
+    expect(parsePartialJson('{"text": "caf\\u00e9')).toEqual({ text: 'café' });
+  });
+
+  it('does not trust unfinished numbers and keywords', () => {
+    expect(parsePartialJson('{"count": 12')).toEqual({});
+    expect(parsePartialJson('{"ok": tru')).toEqual({});
+    expect(parsePartialJson('{"ok": true')).toEqual({});
+    expect(parsePartialJson('{"value": nul')).toEqual({});
+    expect(parsePartialJson('{"count": 12,')).toEqual({ count: 12 });
+    expect(parsePartialJson('{"ok": true}')).toEqual({ ok: true });
+  });
+
+  it('leaves out a key whose value has not arrived', () => {
+    expect(parsePartialJson('{"a": "x", "b"')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x", "b":')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x", "b": ')).toEqual({ a: 'x' });
+  });
+
+  it('ignores text before the object', () => {
+    expect(parsePartialJson('```json\n{"a": "x"')).toEqual({ a: 'x' });
+    expect(parsePartialJson('Thinking...')).toBeUndefined();
+  });
+});
+
+describe('createPreviewReader', () => {
+  it('reads nested improvements that are still open', () => {
+    const previews: StreamingPreview[] = [];
+    const read = createPreviewReader('correctedSentence', preview => previews.push(preview));
+
+    read('{"correctedSentence": "She goes home.", "explanation": {"overview": "Verb agreement", "improvements": ["Use goes", "Che');
+
+    expect(previews).toEqual([{
+      text: 'She goes home.',
+      explanation: { overview: 'Verb agreement', improvements: ['Use goes', 'Che'] }
+    }]);
+  });
+
+  it('only passes a preview on when something visible changed', () => {
+    const previews: StreamingPreview[] = [];
+    const read = createPreviewReader('rewrittenText', preview => previews.push(preview));
+
+    read('{"rewrittenText": "Hel');
+    read('{"rewrittenText": "Hel');
+    read('{"rewrittenText": "Hello", "expl');
+    read('{"rewrittenText": "Hello", "explanation": {"improvements": [');
+
+    expect(previews.map(preview => preview.text)).toEqual(['Hel', 'Hello']);
+    expect(previews[1].explanation).toEqual({ overview: '', improvements: [] });
+  });
+});
@@ -0,0 +1,191 @@
+import { Explanation, GrammarAnalysis, PreviewHandler, RewriteAnalysis, RewriteStyle, StreamingPreview } from "../types";
+
+// Progressive rendering of streamed model output. The JSON arrives a few tokens at a time, so
+// every chunk is re-read with a parser that accepts a truncated document: whatever strings,
+// arrays and objects have started so far come back, cut off where the text ends.
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+type PartialValue = string | number | boolean | null | PartialValue[] | { [key: string]: PartialValue } | undefined;
+
+class PartialJsonReader {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(): PartialValue {
+    const start = this.text.indexOf('{');
+    if (start === -1) return undefined;
+    this.pos = start;
+    return this.value();
+  }
+
+  private get done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private skipWhitespace() {
+    while (!this.done && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private value(): PartialValue {
+    this.skipWhitespace();
+    if (this.done) return undefined;
+
+    const char = this.text[this.pos];
+    if (char === '{') return this.object();
+    if (char === '[') return this.array();
+    if (char === '"') return this.string();
+    return this.literal();
+  }
+
+  private object(): { [key: string]: PartialValue } {
+    const result: { [key: string]: PartialValue } = {};
+    this.pos++; // {
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      if (this.text[this.pos] !== '"') return result; // Not JSON after all; keep what was read
+      const key = this.string();
+      this.skipWhitespace();
+      // A key without its value yet is left out rather than shown as undefined
+      if (this.done || this.text[this.pos] !== ':') return result;
+      this.pos++;
+
+      const value = this.value();
+      if (value !== undefined) result[key] = value;
+    }
+  }
+
+  private array(): PartialValue[] {
+    const result: PartialValue[] = [];
+    this.pos++; // [
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const value = this.value();
+      if (value !== undefined) result.push(value);
+    }
+  }
+
+  private string(): string {
+    let result = '';
+    this.pos++; // opening quote
+
+    while (!this.done) {
+      const char = this.text[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return result;
+      }
+      if (char !== '\\') {
+        result += char;
+        this.pos++;
+        continue;
+      }
+
+      const escape = this.text[this.pos + 1];
+      if (escape === undefined) break; // Cut off in the middle of an escape
+      if (escape === 'u') {
+        const hex = this.text.slice(this.pos + 2, this.pos + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+        result += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 6;
+        continue;
+      }
+
+      result += ESCAPES[escape] ?? escape;
+      this.pos += 2;
+    }
+
+    this.pos = this.text.length;
+    return result;
+  }
+
+  private literal(): PartialValue {
+    const match = this.text.slice(this.pos).match(/^[^,\]}\s]+/);
+    const token = match ? match[0] : '';
+    this.pos += Math.max(token.length, 1);
+    // An unfinished number or keyword at the very end may still grow, so it is not trusted yet
+    if (this.done) return undefined;
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    const number = Number(token);
+    return token && !Number.isNaN(number) ? number : undefined;
+  }
+}
+
+export const parsePartialJson = (text: string): PartialValue => new PartialJsonReader(text).read();
+
+const asRecord = (value: PartialValue): { [key: string]: PartialValue } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {};
+
+const readExplanation = (value: PartialValue): Explanation => {
+  const raw = asRecord(value);
+  return {
+    overview: typeof raw.overview === 'string' ? raw.overview : '',
+    improvements: Array.isArray(raw.improvements)
+      ? raw.improvements.filter((item): item is string => typeof item === 'string' && item.length > 0)
+      : []
+  };
+};
+
+const readPreview = (buffer: string, textField: string): StreamingPreview => {
+  const raw = asRecord(parsePartialJson(buffer));
+  return {
+    text: typeof raw[textField] === 'string' ? raw[textField] as string : '',
+    explanation: readExplanation(raw.explanation)
+  };
+};
+
+// Returns a callback the providers feed the accumulated response text to. It only passes a
+// preview on when something visible changed, so the UI doesn't re-render on every token.
+export const createPreviewReader = (textField: 'correctedSentence' | 'rewrittenText', onPreview?: PreviewHandler) => {
+  let last = '';
+  return (buffer: string) => {
+    if (!onPreview) return;
+    const preview = readPreview(buffer, textField);
+    const key = JSON.stringify(preview);
+    if (key === last) return;
+    last = key;
+    onPreview(preview);
+  };
+};
+
+// Stand-ins the result components render while the response is still streaming. Without
+// word data the text shows as plain prose until the final result replaces it.
+export const previewGrammarAnalysis = (preview: StreamingPreview): GrammarAnalysis => ({
+  segments: [],
+  correctedSentence: preview.text,
+  correctedWords: [],
+  explanation: preview.explanation
+});
+
+export const previewRewriteAnalysis = (originalText: string, style: RewriteStyle, preview: StreamingPreview): RewriteAnalysis => ({
+  originalText,
+  rewrittenText: preview.text,
+  rewrittenWords: [],
+  style,
+  explanation: preview.explanation
+});
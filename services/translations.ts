@@ -1,503 +1,1106 @@
 import { AppLanguage } from "../types";
 
-export const translations = {
-  en: {
-    nav: {
-      tools: "Tools",
-      profile: "Profile",
-      editor: "Writing",
-      study: "Study Text"
-    },
-    input: {
-      label: "Writing",
-      placeholder: "Type or paste your text here...",
-      accuracy: "Accuracy",
-      chars: "characters",
-      checkGrammar: "Check Grammar",
-      stop: "Stop",
-      rewrite: "Rewrite",
-      close: "Close",
-      clear: "Clear text",
-      refresh: "Redo rewrite",
-      dictate: "Dictate text",
-      stopDictate: "Stop dictation",
-      edit: "Edit Text"
-    },
-    styles: {
-      Professional: "Professional",
-      Casual: "Casual",
-      Academic: "Academic",
-      Creative: "Creative",
-      Formal: "Formal",
-      Informal: "Informal",
-      Analytical: "Analytical",
-      Narrative: "Narrative",
-      Persuasive: "Persuasive",
-      Descriptive: "Descriptive"
-    },
-    results: {
-      corrected: "Corrected Version",
-      explanation: "Explanation",
-      styleExplanation: "Style Explanation",
-      rewritten: "Rewritten",
-      copy: "Copy",
-      listen: "Listen",
-      stopListen: "Stop listening",
-      quickRewrites: "Quick Alternatives"
+// The one catalogue of interface strings. English is the reference: its shape defines every key,
+// and each other locale must list all of them. A key (or whole section) a locale hasn't translated
+// yet is marked UNTRANSLATED and renders in English, so a missing or misspelled key fails tsc
+// instead of drifting silently.
+
+export const UNTRANSLATED = Symbol('untranslated');
+
+type LocaleSection<T> = {
+  [K in keyof T]: (T[K] extends string ? string : LocaleSection<T[K]>) | typeof UNTRANSLATED;
+};
+
+const en = {
+  nav: {
+    tools: "Tools",
+    profile: "Profile",
+    editor: "Writing",
+    study: "Study Text",
+    review: "Review",
+    vocabulary: "Vocabulary"
+  },
+  input: {
+    label: "Writing",
+    placeholder: "Type or paste your text here...",
+    accuracy: "Accuracy",
+    chars: "characters",
+    checkGrammar: "Check Grammar",
+    stop: "Stop",
+    rewrite: "Rewrite",
+    close: "Close",
+    clear: "Clear text",
+    refresh: "Redo rewrite",
+    dictate: "Dictate text",
+    stopDictate: "Stop dictation",
+    edit: "Edit Text",
+    alignmentWarning: "Some corrections could not be matched to your text and are not highlighted. See the corrected version below.",
+    documentMode: "Switch to document mode (long texts)",
+    sentenceMode: "Switch to sentence mode",
+    documentProgress: "Checked {completed} of {total} parts",
+    languageMismatch: "This text looks like {detected}, but you are practising {target}. Corrections follow {target} rules.",
+    switchLanguage: "Switch to {language}"
+  },
+  corrections: {
+    accept: "Accept",
+    reject: "Reject",
+    edit: "Edit",
+    save: "Save",
+    undo: "Undo",
+    applyCritical: "Apply all critical",
+    applySuggestions: "Apply all suggestions",
+    progress: "{done} of {total} corrections reviewed",
+    allReviewed: "All corrections reviewed"
+  },
+  review: {
+    title: "Review Deck",
+    deckSize: "{count} cards",
+    chooseTitle: "Pick the correct form",
+    fixTitle: "Fix the sentence",
+    fixPlaceholder: "Type the corrected sentence...",
+    check: "Check",
+    correct: "Correct!",
+    incorrect: "Not quite. The correct version is:",
+    hard: "Hard",
+    good: "Good",
+    easy: "Easy",
+    next: "Next",
+    emptyTitle: "Your review deck is empty",
+    emptyDesc: "Mistakes from your grammar checks are added here automatically.",
+    caughtUp: "All caught up!",
+    sessionDone: "Session complete",
+    sessionScore: "{correct} of {total} answered correctly",
+    nextDue: "Next review: {date}"
+  },
+  vocabulary: {
+    title: "Vocabulary Notebook",
+    wordCount: "{count} words",
+    searchPlaceholder: "Search words, meanings or tags...",
+    allTags: "All",
+    empty: "No saved words yet. Look a word up in the dictionary and tap Save.",
+    noMatches: "No words match your search.",
+    saveWord: "Save",
+    saved: "Saved",
+    removeWord: "Remove from notebook",
+    savedToast: "Saved to notebook",
+    addTag: "Add tag...",
+    removeTag: "Remove tag",
+    fromSentence: "From:"
+  },
+  categories: {
+    articles: "Articles",
+    'verb-tense': "Verb Tense",
+    'subject-verb-agreement': "Subject-Verb Agreement",
+    prepositions: "Prepositions",
+    pronouns: "Pronouns",
+    plurals: "Plurals",
+    spelling: "Spelling",
+    capitalization: "Capitalization",
+    punctuation: "Punctuation",
+    'word-order': "Word Order",
+    'word-choice': "Word Choice",
+    style: "Style",
+    other: "Other"
+  },
+  styles: {
+    Professional: "Professional",
+    Casual: "Casual",
+    Academic: "Academic",
+    Creative: "Creative",
+    Formal: "Formal",
+    Informal: "Informal",
+    Analytical: "Analytical",
+    Narrative: "Narrative",
+    Persuasive: "Persuasive",
+    Descriptive: "Descriptive"
+  },
+  results: {
+    corrected: "Corrected Version",
+    explanation: "Explanation",
+    styleExplanation: "Style Explanation",
+    rewritten: "Rewritten",
+    copy: "Copy",
+    share: "Share",
+    sharedCopied: "Copied to clipboard",
+    listen: "Listen",
+    stopListen: "Stop listening",
+    quickRewrites: "Quick Alternatives",
+    yourLanguage: "Your language",
+    english: "English",
+    generating: "Generating…",
+    cached: "Saved result from {date}",
+    refresh: "Refresh"
+  },
+  profile: {
+    language: "Language",
+    accuracyRate: "Accuracy Rate",
+    accuracyDesc: "Accuracy percentage",
+    totalChecks: "Total Checks",
+    checksDesc: "Sentences analyzed",
+    totalErrors: "Total Errors",
+    errorsDesc: "Mistakes identified & fixed",
+    correctionsApplied: "Corrections Applied",
+    correctionsDesc: "Accepted or edited · {rejected} rejected",
+    decisionSummary: "{accepted} applied · {rejected} rejected",
+    openEntry: "Open in editor",
+    errorBreakdown: "Error Breakdown",
+    breakdownDesc: "Trend over your last 10 checks",
+    noCategories: "Check some text to see which rules you break most often.",
+    trend: {
+      improving: "Improving",
+      worsening: "More often",
+      steady: "Steady"
     },
-    profile: {
-      language: "Language",
-      accuracyRate: "Accuracy Rate",
-      accuracyDesc: "Accuracy percentage",
-      totalChecks: "Total Checks",
-      checksDesc: "Sentences analyzed",
-      totalErrors: "Total Errors",
-      errorsDesc: "Mistakes identified & fixed",
-      recentHistory: "Recent History",
-      entries: "entries",
-      noHistory: "No history yet. Start checking your grammar!",
-      cols: {
-        date: "Date",
-        text: "Text Preview",
-        result: "Result"
+    recentHistory: "Recent History",
+    entries: "entries",
+    noHistory: "No history yet. Start checking your grammar!",
+    filters: {
+      searchPlaceholder: "Search original or corrected text...",
+      allTypes: "All activity",
+      types: {
+        grammar: "Grammar checks",
+        rewrite: "Rewrites",
+        dictionary: "Dictionary"
       },
-      backup: "Backup Data",
-      restore: "Restore Data",
-      activity: "Activity",
-      yearly: "Yearly"
-    },
-    settings: {
-        title: "API Configuration",
-        desc: "To use this app, you can provide your own Google Gemini API Key. Your key is stored securely in your browser's local storage and is never sent to our servers.",
-        inputLabel: "Gemini API Key",
-        placeholder: "Paste your API key here...",
-        getKey: "Get a free API key",
-        save: "Save Key",
-        remove: "Remove Key",
-        saved: "Key saved successfully",
-        note: "Note: If no key is provided, the app will attempt to use the default environment key."
-    },
-    errors: {
-      generic: "Unable to analyze text at this time. Please check your connection or API key.",
-      limit: "API usage limit exceeded. Please try again in a few moments.",
-      speech: "Speech recognition is not supported in this browser.",
-      missingKey: "API Key Missing. Please add your key in Settings.",
-      permissionDenied: "Access denied. Please check your API Key in Settings and ensure it has permissions for Gemini models."
-    }
-  },
-  es: {
-    nav: {
-      tools: "Herramientas",
-      profile: "Perfil",
-      editor: "Escritura",
-      study: "Estudiar Texto"
-    },
-    input: {
-      label: "Escritura",
-      placeholder: "Escribe o pega tu texto aquí...",
-      accuracy: "Precisión",
-      chars: "caracteres",
-      checkGrammar: "Revisar Gramática",
-      stop: "Detener",
-      rewrite: "Reescribir",
-      close: "Cerrar",
-      clear: "Borrar texto",
-      refresh: "Rehacer",
-      dictate: "Dictar texto",
-      stopDictate: "Detener dictado",
-      edit: "Editar Texto"
-    },
-    styles: {
-      Professional: "Profesional",
-      Casual: "Casual",
-      Academic: "Académico",
-      Creative: "Creativo",
-      Formal: "Formal",
-      Informal: "Informal",
-      Analytical: "Analítico",
-      Narrative: "Narrativo",
-      Persuasive: "Persuasivo",
-      Descriptivo: "Descriptivo",
-      Descriptive: "Descriptivo"
-    },
-    results: {
-      corrected: "Versión Corregida",
-      explanation: "Explicación",
-      styleExplanation: "Explicación de Estilo",
-      rewritten: "Reescrito",
-      copy: "Copiar",
-      listen: "Escuchar",
-      stopListen: "Dejar de escuchar"
-    },
-    profile: {
-      language: "Idioma",
-      accuracyRate: "Tasa de Aciertos",
-      accuracyDesc: "Porcentaje de precisión",
-      totalChecks: "Revisiones Totales",
-      checksDesc: "Frases analizadas",
-      totalErrors: "Errores Totales",
-      errorsDesc: "Errores identificados y corregidos",
-      recentHistory: "Historial Reciente",
-      entries: "entradas",
-      noHistory: "Sin historial aún. ¡Empieza a revisar!",
-      cols: {
-        date: "Fecha",
-        text: "Vista Previa",
-        result: "Resultado"
+      allStyles: "Any style",
+      allOutcomes: "Any result",
+      perfect: "Perfect",
+      withErrors: "With errors",
+      allCategories: "Any error type",
+      from: "From",
+      to: "To",
+      sort: {
+        newest: "Newest first",
+        oldest: "Oldest first",
+        'most-errors': "Most errors",
+        'fewest-errors': "Fewest errors"
       },
-      backup: "Respaldar Datos",
-      restore: "Restaurar Datos",
-      activity: "Actividad",
-      yearly: "Anual"
+      clear: "Clear filters",
+      noMatches: "No entries match these filters.",
+      pageRange: "{from}–{to} of {total}",
+      previous: "Previous page",
+      next: "Next page"
     },
-    settings: {
-        title: "Configuración API",
-        desc: "Para usar esta app, puedes proporcionar tu propia clave API de Google Gemini. Se guarda localmente en tu navegador.",
-        inputLabel: "Clave API Gemini",
-        placeholder: "Pega tu clave aquí...",
-        getKey: "Obtener clave gratis",
-        save: "Guardar Clave",
-        remove: "Eliminar Clave",
-        saved: "Clave guardada",
-        note: "Nota: Si no hay clave, se usará la clave predeterminada si existe."
-    },
-    errors: {
-      generic: "No se pudo analizar el texto. Verifica tu conexión o clave API.",
-      limit: "Límite de uso de API excedido. Intenta de nuevo en un momento.",
-      speech: "El reconocimiento de voz no es compatible con este navegador.",
-      missingKey: "Falta la clave API. Agrégala en Configuración."
-    }
-  },
-  pt: {
-    nav: {
-      tools: "Ferramentas",
-      profile: "Perfil",
-      editor: "Escrita",
-      study: "Estudar Texto"
-    },
-    input: {
-      label: "Escrita",
-      placeholder: "Digite ou cole seu texto aqui...",
-      accuracy: "Precisão",
-      chars: "caracteres",
-      checkGrammar: "Verificar Gramática",
-      stop: "Parar",
-      rewrite: "Reescrever",
-      close: "Fechar",
-      clear: "Limpar texto",
-      refresh: "Refazer",
-      dictate: "Ditado",
-      stopDictate: "Parar ditado",
-      edit: "Editar Texto"
-    },
-    styles: {
-      Professional: "Profissional",
-      Casual: "Casual",
-      Academic: "Acadêmico",
-      Creative: "Criativo",
-      Formal: "Formal",
-      Informal: "Informal",
-      Analytical: "Analítico",
-      Narrative: "Narrativo",
-      Persuasive: "Persuasivo",
-      Descriptive: "Descritivo"
-    },
-    results: {
-      corrected: "Versão Corrigida",
-      explanation: "Explicação",
-      styleExplanation: "Explicação do Estilo",
-      rewritten: "Reescrito",
-      copy: "Copiar",
-      listen: "Ouvir",
-      stopListen: "Parar de ouvir"
-    },
-    profile: {
-      language: "Idioma",
-      accuracyRate: "Taxa de Precisão",
-      accuracyDesc: "Porcentagem de precisão",
-      totalChecks: "Total de Verificações",
-      checksDesc: "Frases analisadas",
-      totalErrors: "Total de Erros",
-      errorsDesc: "Erros identificados e corrigidos",
-      recentHistory: "Histórico Recente",
-      entries: "entradas",
-      noHistory: "Sem histórico ainda. Comece a verificar!",
-      cols: {
-        date: "Data",
-        text: "Prévia",
-        result: "Resultado"
-      },
-      backup: "Backup de Dados",
-      restore: "Restaurar Dados",
-      activity: "Atividade",
-      yearly: "Anual"
+    cols: {
+      date: "Date",
+      text: "Text Preview",
+      result: "Result"
     },
-    settings: {
-        title: "Configuração da API",
-        desc: "Para usar este app, forneça sua chave API do Google Gemini. Ela é salva localmente no navegador.",
-        inputLabel: "Chave API Gemini",
-        placeholder: "Cole sua chave aqui...",
-        getKey: "Obter chave grátis",
-        save: "Salvar Chave",
-        remove: "Remover Chave",
-        saved: "Chave salva com sucesso",
-        note: "Nota: Se nenhuma chave for fornecida, o app tentará usar a chave padrão."
-    },
-    errors: {
-      generic: "Não foi possível analisar o texto. Verifique sua conexão.",
-      limit: "Limite de uso da API excedido. Tente novamente em alguns instantes.",
-      speech: "O reconhecimento de voz não é suportado neste navegador.",
-      missingKey: "Chave API ausente. Adicione em Configurações."
-    }
-  },
-  fr: {
-    nav: {
-      tools: "Outils",
-      profile: "Profil",
-      editor: "Écriture",
-      study: "Étudier le Texte"
-    },
-    input: {
-      label: "Écriture",
-      placeholder: "Tapez ou collez votre texte ici...",
-      accuracy: "Précision",
-      chars: "caractères",
-      checkGrammar: "Vérifier la grammaire",
-      stop: "Arrêter",
-      rewrite: "Réécrire",
-      close: "Fermer",
-      clear: "Effacer le texte",
-      refresh: "Refaire",
-      dictate: "Dicter le texte",
-      stopDictate: "Arrêter la dictée",
-      edit: "Modifier le Texte"
-    },
-    styles: {
-      Professional: "Professionnel",
-      Casual: "Décontracté",
-      Academic: "Académique",
-      Creative: "Créatif",
-      Formal: "Formel",
-      Informal: "Informel",
-      Analytical: "Analytique",
-      Narrative: "Narratif",
-      Persuasive: "Persuasif",
-      Descriptive: "Descriptif"
-    },
-    results: {
-      corrected: "Version Corrigée",
-      explanation: "Explication",
-      styleExplanation: "Explication du Style",
-      rewritten: "Réécrit",
-      copy: "Copier",
-      listen: "Écouter",
-      stopListen: "Arrêter l'écoute"
-    },
-    profile: {
-      language: "Langue",
-      accuracyRate: "Taux de Précision",
-      accuracyDesc: "Pourcentage de précision",
-      totalChecks: "Total des Vérifications",
-      checksDesc: "Phrases analysées",
-      totalErrors: "Total des Erreurs",
-      errorsDesc: "Erreurs identifiées et corrigées",
-      recentHistory: "Historique Récent",
-      entries: "entrées",
-      noHistory: "Pas encore d'historique. Commencez à vérifier !",
-      cols: {
-        date: "Date",
-        text: "Aperçu",
-        result: "Résultat"
+    backup: "Backup Data",
+    restore: "Restore Data",
+    activity: "Activity",
+    yearly: "Yearly"
+  },
+  settings: {
+      title: "API Configuration",
+      desc: "To use this app, you can provide your own Google Gemini API Key. Your key is stored securely in your browser's local storage and is never sent to our servers.",
+      inputLabel: "Gemini API Key",
+      placeholder: "Paste your API key here...",
+      getKey: "Get a free API key",
+      save: "Save Key",
+      remove: "Remove Key",
+      saved: "Key saved successfully",
+      note: "Note: If no key is provided, the app will attempt to use the default environment key.",
+      providerTitle: "AI Provider",
+      providerDesc: "Choose which model backend runs grammar checks, rewrites and example sentences.",
+      providers: {
+        gemini: "Google Gemini",
+        openai: "OpenAI-compatible",
+        mock: "Offline (mock)"
       },
-      backup: "Sauvegarder",
-      restore: "Restaurer",
-      activity: "Activité",
-      yearly: "Annuel"
-    },
-    settings: {
-        title: "Configuration API",
-        desc: "Pour utiliser l'app, fournissez votre clé API Google Gemini. Elle est stockée localement.",
-        inputLabel: "Clé API Gemini",
-        placeholder: "Collez votre clé ici...",
-        getKey: "Obtenir une clé",
-        save: "Enregistrer",
-        remove: "Supprimer",
-        saved: "Clé enregistrée",
-        note: "Note: Sans clé, l'app utilisera la configuration par défaut."
-    },
-    errors: {
-      generic: "Impossible d'analyser le texte. Vérifiez votre connexion.",
-      limit: "Limite d'utilisation de l'API dépassée. Réessayez plus tard.",
-      speech: "La reconnaissance vocale n'est pas supportée par ce navigateur.",
-      missingKey: "Clé API manquante. Ajoutez-la dans les paramètres."
-    }
-  },
-  ja: {
-    nav: {
-      tools: "ツール",
-      profile: "プロフィール",
-      editor: "ライティング",
-      study: "テキスト学習"
-    },
-    input: {
-      label: "ライティング",
-      placeholder: "テキストを入力または貼り付け...",
-      accuracy: "正確性",
-      chars: "文字",
-      checkGrammar: "文法チェック",
-      stop: "停止",
-      rewrite: "書き換え",
-      close: "閉じる",
-      clear: "テキストを消去",
-      refresh: "やり直し",
-      dictate: "音声入力",
-      stopDictate: "入力を停止",
-      edit: "テキストを編集"
-    },
-    styles: {
-      Professional: "プロフェッショナル",
-      Casual: "カジュアル",
-      Academic: "アカデミック",
-      Creative: "クリエイティブ",
-      Formal: "フォーマル",
-      Informal: "インフォーマル",
-      Analytical: "分析的",
-      Narrative: "物語的",
-      Persuasive: "説得的",
-      Descriptive: "記述的"
-    },
-    results: {
-      corrected: "修正版",
-      explanation: "解説",
-      styleExplanation: "スタイルの解説",
-      rewritten: "書き換え結果",
-      copy: "コピー",
-      listen: "再生",
-      stopListen: "停止"
-    },
-    profile: {
-      language: "言語",
-      accuracyRate: "正確率",
-      accuracyDesc: "正確率",
-      totalChecks: "チェック回数",
-      checksDesc: "分析された文章",
-      totalErrors: "エラー総数",
-      errorsDesc: "特定・修正されたミス",
-      recentHistory: "最近の履歴",
-      entries: "件",
-      noHistory: "履歴はまだありません。文法チェックを始めましょう！",
-      cols: {
-        date: "日付",
-        text: "プレビュー",
-        result: "結果"
+      providerHints: {
+        gemini: "Uses gemini-2.5-flash with the API key below.",
+        openai: "Any server exposing /chat/completions, such as a self-hosted model server.",
+        mock: "Deterministic rule-based checks. No network or API key required."
       },
-      backup: "データバックアップ",
-      restore: "データ復元",
-      activity: "アクティビティ",
-      yearly: "年間"
-    },
-    settings: {
-        title: "API設定",
-        desc: "アプリを使用するには、Google Gemini APIキーを入力してください。キーはブラウザに安全に保存されます。",
-        inputLabel: "Gemini APIキー",
-        placeholder: "キーをここに貼り付け...",
-        getKey: "キーを無料で取得",
-        save: "保存",
-        remove: "削除",
-        saved: "保存しました",
-        note: "注：キーがない場合、デフォルトの設定を使用します。"
-    },
-    errors: {
-      generic: "テキストを分析できませんでした。接続を確認してください。",
-      limit: "API使用制限を超えました。しばらくしてから再試行してください。",
-      speech: "このブラウザでは音声認識がサポートされていません。",
-      missingKey: "APIキーがありません。設定で追加してください。"
-    }
-  },
-  zh: {
-    nav: {
-      tools: "工具",
-      profile: "个人资料",
-      editor: "写作",
-      study: "学习文本"
-    },
-    input: {
-      label: "写作",
-      placeholder: "在此输入或粘贴文本...",
-      accuracy: "准确率",
-      chars: "字符",
-      checkGrammar: "检查语法",
-      stop: "停止",
-      rewrite: "重写",
-      close: "关闭",
-      clear: "清除文本",
-      refresh: "重试",
-      dictate: "语音输入",
-      stopDictate: "停止听写",
-      edit: "编辑文本"
+      baseUrlLabel: "Base URL",
+      modelLabel: "Model",
+      providerKeyLabel: "API Key (optional)",
+      saveProvider: "Save Provider",
+      providerSaved: "Provider saved",
+      targetLanguageTitle: "Target Language",
+      targetLanguageDesc: "The language you are learning. Grammar checks, rewrites, dictation, read-aloud and dictionary lookups all use it.",
+      nativeLanguageLabel: "Explanations In",
+      nativeLanguageDesc: "Your native language. Explanations and the reasons behind each correction are written in it.",
+      showEnglish: "Also show explanations in English",
+      clearCache: "Clear saved AI responses",
+      cacheCleared: "Saved responses cleared"
+  },
+  errors: {
+    generic: "Unable to analyze text at this time. Please check your connection or API key.",
+    limit: "API usage limit exceeded. Please try again in a few moments.",
+    speech: "Speech recognition is not supported in this browser.",
+    missingKey: "API Key Missing. Please add your key in Settings.",
+    permissionDenied: "Access denied. Please check your API Key in Settings and ensure it has permissions for Gemini models.",
+    malformedResponse: "The AI returned an incomplete answer that could not be displayed. Please try again.",
+    offTask: "The AI answer did not match your text, so it was discarded. Please try again.",
+    budgetExceeded: "Today's AI budget has been reached. Raise it in Settings or try again tomorrow.",
+    overloaded: "The AI service is busy right now. Please try again in a moment.",
+    offline: "You appear to be offline. Check your connection and try again.",
+    safety: "The AI declined to process this text because of its safety filters.",
+    dictionaryNotFound: "Could not find a definition for this word.",
+    retryAfter: "Available again in {seconds}s.",
+    retry: "Try again",
+    openSettings: "Open Settings",
+    dismiss: "Dismiss"
+  },
+  usage: {
+    title: "Usage & Cost",
+    desc: "AI calls made with your key. Costs are estimates from list prices and may differ from your bill.",
+    today: "Today",
+    month: "This month",
+    requests: "Requests",
+    calls: "API calls (incl. retries)",
+    failures: "Failed",
+    inputTokens: "Tokens in",
+    outputTokens: "Tokens out",
+    cost: "Estimated cost",
+    unpriced: "{count} requests used a model without a known price and are not included in the cost.",
+    budgetLabel: "Daily Budget (USD)",
+    budgetDesc: "When today's estimated cost reaches this amount, further AI requests are blocked until tomorrow. Leave empty for no limit.",
+    budgetProgress: "{spent} of {budget} used today",
+    saveBudget: "Save Budget",
+    budgetSaved: "Budget saved",
+    removeBudget: "Remove Budget"
+  },
+  offline: {
+    title: "You're offline",
+    hint: "Checks you start now are queued and run automatically when you're back online.",
+    queued: "Queued checks: {count}. They will run automatically when you're back online.",
+    running: "Back online. Running queued checks: {count}",
+    finished: "Queued checks finished: {count}",
+    waiting: "Queued checks couldn't run yet: {count}. Trying again shortly.",
+    stalled: "Queued checks keep failing: {count}. The AI service may be down or over its limit.",
+    retryNow: "Retry now",
+    discard: "Discard",
+    dropped: "{count} queued checks couldn't be completed and were removed.",
+    viewHistory: "View history",
+    notificationTitle: "Queued checks finished",
+    notificationBody: "{count} checks you started offline are ready.",
+    dismiss: "Dismiss"
+  },
+  update: {
+    available: "A new version of GrammarGuard is available.",
+    reload: "Reload",
+    later: "Later"
+  }
+};
+
+export type Translations = typeof en;
+export type LocaleTable = LocaleSection<Translations>;
+
+const es: LocaleTable = {
+  nav: {
+    tools: "Herramientas",
+    profile: "Perfil",
+    editor: "Escritura",
+    study: "Estudiar Texto",
+    review: UNTRANSLATED,
+    vocabulary: UNTRANSLATED
+  },
+  input: {
+    label: "Escritura",
+    placeholder: "Escribe o pega tu texto aquí...",
+    accuracy: "Precisión",
+    chars: "caracteres",
+    checkGrammar: "Revisar Gramática",
+    stop: "Detener",
+    rewrite: "Reescribir",
+    close: "Cerrar",
+    clear: "Borrar texto",
+    refresh: "Rehacer",
+    dictate: "Dictar texto",
+    stopDictate: "Detener dictado",
+    edit: "Editar Texto",
+    alignmentWarning: UNTRANSLATED,
+    documentMode: UNTRANSLATED,
+    sentenceMode: UNTRANSLATED,
+    documentProgress: UNTRANSLATED,
+    languageMismatch: UNTRANSLATED,
+    switchLanguage: UNTRANSLATED
+  },
+  corrections: UNTRANSLATED,
+  review: UNTRANSLATED,
+  vocabulary: UNTRANSLATED,
+  categories: UNTRANSLATED,
+  styles: {
+    Professional: "Profesional",
+    Casual: "Casual",
+    Academic: "Académico",
+    Creative: "Creativo",
+    Formal: "Formal",
+    Informal: "Informal",
+    Analytical: "Analítico",
+    Narrative: "Narrativo",
+    Persuasive: "Persuasivo",
+    Descriptive: "Descriptivo"
+  },
+  results: {
+    corrected: "Versión Corregida",
+    explanation: "Explicación",
+    styleExplanation: "Explicación de Estilo",
+    rewritten: "Reescrito",
+    copy: "Copiar",
+    share: "Compartir",
+    sharedCopied: "Copiado al portapapeles",
+    listen: "Escuchar",
+    stopListen: "Dejar de escuchar",
+    quickRewrites: UNTRANSLATED,
+    yourLanguage: UNTRANSLATED,
+    english: UNTRANSLATED,
+    generating: "Generando…",
+    cached: "Resultado guardado el {date}",
+    refresh: "Actualizar"
+  },
+  profile: {
+    language: "Idioma",
+    accuracyRate: "Tasa de Aciertos",
+    accuracyDesc: "Porcentaje de precisión",
+    totalChecks: "Revisiones Totales",
+    checksDesc: "Frases analizadas",
+    totalErrors: "Errores Totales",
+    errorsDesc: "Errores identificados y corregidos",
+    correctionsApplied: UNTRANSLATED,
+    correctionsDesc: UNTRANSLATED,
+    decisionSummary: UNTRANSLATED,
+    openEntry: UNTRANSLATED,
+    errorBreakdown: UNTRANSLATED,
+    breakdownDesc: UNTRANSLATED,
+    noCategories: UNTRANSLATED,
+    trend: UNTRANSLATED,
+    recentHistory: "Historial Reciente",
+    entries: "entradas",
+    noHistory: "Sin historial aún. ¡Empieza a revisar!",
+    filters: UNTRANSLATED,
+    cols: {
+      date: "Fecha",
+      text: "Vista Previa",
+      result: "Resultado"
     },
-    styles: {
-      Professional: "专业",
-      Casual: "休闲",
-      Academic: "学术",
-      Creative: "创意",
-      Formal: "正式",
-      Informal: "非正式",
-      Analytical: "分析",
-      Narrative: "叙述",
-      Persuasive: "说服",
-      Descriptive: "描述"
+    backup: "Respaldar Datos",
+    restore: "Restaurar Datos",
+    activity: "Actividad",
+    yearly: "Anual"
+  },
+  settings: {
+    title: "Configuración API",
+    desc: "Para usar esta app, puedes proporcionar tu propia clave API de Google Gemini. Se guarda localmente en tu navegador.",
+    inputLabel: "Clave API Gemini",
+    placeholder: "Pega tu clave aquí...",
+    getKey: "Obtener clave gratis",
+    save: "Guardar Clave",
+    remove: "Eliminar Clave",
+    saved: "Clave guardada",
+    note: "Nota: Si no hay clave, se usará la clave predeterminada si existe.",
+    providerTitle: UNTRANSLATED,
+    providerDesc: UNTRANSLATED,
+    providers: UNTRANSLATED,
+    providerHints: UNTRANSLATED,
+    baseUrlLabel: UNTRANSLATED,
+    modelLabel: UNTRANSLATED,
+    providerKeyLabel: UNTRANSLATED,
+    saveProvider: UNTRANSLATED,
+    providerSaved: UNTRANSLATED,
+    targetLanguageTitle: UNTRANSLATED,
+    targetLanguageDesc: UNTRANSLATED,
+    nativeLanguageLabel: UNTRANSLATED,
+    nativeLanguageDesc: UNTRANSLATED,
+    showEnglish: UNTRANSLATED,
+    clearCache: "Borrar respuestas guardadas",
+    cacheCleared: "Respuestas borradas"
+  },
+  errors: {
+    generic: "No se pudo analizar el texto. Verifica tu conexión o clave API.",
+    limit: "Límite de uso de API excedido. Intenta de nuevo en un momento.",
+    speech: "El reconocimiento de voz no es compatible con este navegador.",
+    missingKey: "Falta la clave API. Agrégala en Configuración.",
+    permissionDenied: "Acceso denegado. Revisa tu clave API en Configuración y asegúrate de que tenga permisos para los modelos de Gemini.",
+    malformedResponse: "La IA devolvió una respuesta incompleta que no se pudo mostrar. Intenta de nuevo.",
+    offTask: "La respuesta de la IA no correspondía a tu texto y se descartó. Intenta de nuevo.",
+    budgetExceeded: "Se alcanzó el presupuesto diario de IA. Auméntalo en Configuración o intenta de nuevo mañana.",
+    overloaded: "El servicio de IA está saturado. Intenta de nuevo en un momento.",
+    offline: "Parece que no tienes conexión. Revísala e intenta de nuevo.",
+    safety: "La IA no procesó este texto por sus filtros de seguridad.",
+    dictionaryNotFound: "No se encontró una definición para esta palabra.",
+    retryAfter: "Disponible de nuevo en {seconds} s.",
+    retry: "Reintentar",
+    openSettings: "Abrir Configuración",
+    dismiss: "Cerrar"
+  },
+  usage: UNTRANSLATED,
+  offline: {
+    title: "Sin conexión",
+    hint: "Las revisiones que inicies ahora se pondrán en cola y se harán al recuperar la conexión.",
+    queued: "Revisiones en cola: {count}. Se harán automáticamente al recuperar la conexión.",
+    running: "Conexión recuperada. Haciendo revisiones en cola: {count}",
+    finished: "Revisiones en cola completadas: {count}",
+    waiting: "Aún no se pudieron hacer las revisiones en cola: {count}. Se reintentará en breve.",
+    stalled: "Las revisiones en cola siguen fallando: {count}. Puede que el servicio de IA no esté disponible o haya superado su límite.",
+    retryNow: "Reintentar ahora",
+    discard: "Descartar",
+    dropped: "{count} revisiones en cola no se pudieron completar y se eliminaron.",
+    viewHistory: "Ver historial",
+    notificationTitle: "Revisiones en cola completadas",
+    notificationBody: "{count} revisiones iniciadas sin conexión están listas.",
+    dismiss: "Cerrar"
+  },
+  update: {
+    available: "Hay una nueva versión de GrammarGuard disponible.",
+    reload: "Recargar",
+    later: "Más tarde"
+  }
+};
+
+const pt: LocaleTable = {
+  nav: {
+    tools: "Ferramentas",
+    profile: "Perfil",
+    editor: "Escrita",
+    study: "Estudar Texto",
+    review: UNTRANSLATED,
+    vocabulary: UNTRANSLATED
+  },
+  input: {
+    label: "Escrita",
+    placeholder: "Digite ou cole seu texto aqui...",
+    accuracy: "Precisão",
+    chars: "caracteres",
+    checkGrammar: "Verificar Gramática",
+    stop: "Parar",
+    rewrite: "Reescrever",
+    close: "Fechar",
+    clear: "Limpar texto",
+    refresh: "Refazer",
+    dictate: "Ditado",
+    stopDictate: "Parar ditado",
+    edit: "Editar Texto",
+    alignmentWarning: UNTRANSLATED,
+    documentMode: UNTRANSLATED,
+    sentenceMode: UNTRANSLATED,
+    documentProgress: UNTRANSLATED,
+    languageMismatch: UNTRANSLATED,
+    switchLanguage: UNTRANSLATED
+  },
+  corrections: UNTRANSLATED,
+  review: UNTRANSLATED,
+  vocabulary: UNTRANSLATED,
+  categories: UNTRANSLATED,
+  styles: {
+    Professional: "Profissional",
+    Casual: "Casual",
+    Academic: "Acadêmico",
+    Creative: "Criativo",
+    Formal: "Formal",
+    Informal: "Informal",
+    Analytical: "Analítico",
+    Narrative: "Narrativo",
+    Persuasive: "Persuasivo",
+    Descriptive: "Descritivo"
+  },
+  results: {
+    corrected: "Versão Corrigida",
+    explanation: "Explicação",
+    styleExplanation: "Explicação do Estilo",
+    rewritten: "Reescrito",
+    copy: "Copiar",
+    share: "Compartilhar",
+    sharedCopied: "Copiado para a área de transferência",
+    listen: "Ouvir",
+    stopListen: "Parar de ouvir",
+    quickRewrites: UNTRANSLATED,
+    yourLanguage: UNTRANSLATED,
+    english: UNTRANSLATED,
+    generating: "Gerando…",
+    cached: "Resultado salvo em {date}",
+    refresh: "Atualizar"
+  },
+  profile: {
+    language: "Idioma",
+    accuracyRate: "Taxa de Precisão",
+    accuracyDesc: "Porcentagem de precisão",
+    totalChecks: "Total de Verificações",
+    checksDesc: "Frases analisadas",
+    totalErrors: "Total de Erros",
+    errorsDesc: "Erros identificados e corrigidos",
+    correctionsApplied: UNTRANSLATED,
+    correctionsDesc: UNTRANSLATED,
+    decisionSummary: UNTRANSLATED,
+    openEntry: UNTRANSLATED,
+    errorBreakdown: UNTRANSLATED,
+    breakdownDesc: UNTRANSLATED,
+    noCategories: UNTRANSLATED,
+    trend: UNTRANSLATED,
+    recentHistory: "Histórico Recente",
+    entries: "entradas",
+    noHistory: "Sem histórico ainda. Comece a verificar!",
+    filters: UNTRANSLATED,
+    cols: {
+      date: "Data",
+      text: "Prévia",
+      result: "Resultado"
     },
-    results: {
-      corrected: "更正版本",
-      explanation: "解释",
-      styleExplanation: "风格解释",
-      rewritten: "重写结果",
-      copy: "复制",
-      listen: "朗读",
-      stopListen: "停止朗读"
+    backup: "Backup de Dados",
+    restore: "Restaurar Dados",
+    activity: "Atividade",
+    yearly: "Anual"
+  },
+  settings: {
+    title: "Configuração da API",
+    desc: "Para usar este app, forneça sua chave API do Google Gemini. Ela é salva localmente no navegador.",
+    inputLabel: "Chave API Gemini",
+    placeholder: "Cole sua chave aqui...",
+    getKey: "Obter chave grátis",
+    save: "Salvar Chave",
+    remove: "Remover Chave",
+    saved: "Chave salva com sucesso",
+    note: "Nota: Se nenhuma chave for fornecida, o app tentará usar a chave padrão.",
+    providerTitle: UNTRANSLATED,
+    providerDesc: UNTRANSLATED,
+    providers: UNTRANSLATED,
+    providerHints: UNTRANSLATED,
+    baseUrlLabel: UNTRANSLATED,
+    modelLabel: UNTRANSLATED,
+    providerKeyLabel: UNTRANSLATED,
+    saveProvider: UNTRANSLATED,
+    providerSaved: UNTRANSLATED,
+    targetLanguageTitle: UNTRANSLATED,
+    targetLanguageDesc: UNTRANSLATED,
+    nativeLanguageLabel: UNTRANSLATED,
+    nativeLanguageDesc: UNTRANSLATED,
+    showEnglish: UNTRANSLATED,
+    clearCache: "Limpar respostas salvas",
+    cacheCleared: "Respostas apagadas"
+  },
+  errors: {
+    generic: "Não foi possível analisar o texto. Verifique sua conexão.",
+    limit: "Limite de uso da API excedido. Tente novamente em alguns instantes.",
+    speech: "O reconhecimento de voz não é suportado neste navegador.",
+    missingKey: "Chave API ausente. Adicione em Configurações.",
+    permissionDenied: "Acesso negado. Verifique sua chave API nas Configurações e confirme que ela tem permissão para os modelos Gemini.",
+    malformedResponse: "A IA retornou uma resposta incompleta que não pôde ser exibida. Tente novamente.",
+    offTask: "A resposta da IA não correspondia ao seu texto e foi descartada. Tente novamente.",
+    budgetExceeded: "O orçamento diário de IA foi atingido. Aumente-o nas Configurações ou tente novamente amanhã.",
+    overloaded: "O serviço de IA está sobrecarregado. Tente novamente em instantes.",
+    offline: "Parece que você está offline. Verifique sua conexão e tente novamente.",
+    safety: "A IA não processou este texto por causa dos filtros de segurança.",
+    dictionaryNotFound: "Não foi encontrada uma definição para esta palavra.",
+    retryAfter: "Disponível novamente em {seconds} s.",
+    retry: "Tentar novamente",
+    openSettings: "Abrir Configurações",
+    dismiss: "Fechar"
+  },
+  usage: UNTRANSLATED,
+  offline: {
+    title: "Você está offline",
+    hint: "As verificações iniciadas agora entram na fila e rodam quando a conexão voltar.",
+    queued: "Verificações na fila: {count}. Elas rodarão automaticamente quando a conexão voltar.",
+    running: "Conexão restabelecida. Rodando verificações da fila: {count}",
+    finished: "Verificações da fila concluídas: {count}",
+    waiting: "Ainda não foi possível fazer as revisões na fila: {count}. Tentando de novo em breve.",
+    stalled: "As revisões na fila continuam falhando: {count}. O serviço de IA pode estar fora do ar ou acima do limite.",
+    retryNow: "Tentar agora",
+    discard: "Descartar",
+    dropped: "{count} revisões na fila não puderam ser concluídas e foram removidas.",
+    viewHistory: "Ver histórico",
+    notificationTitle: "Verificações da fila concluídas",
+    notificationBody: "{count} verificações iniciadas offline estão prontas.",
+    dismiss: "Fechar"
+  },
+  update: {
+    available: "Uma nova versão do GrammarGuard está disponível.",
+    reload: "Recarregar",
+    later: "Mais tarde"
+  }
+};
+
+const fr: LocaleTable = {
+  nav: {
+    tools: "Outils",
+    profile: "Profil",
+    editor: "Écriture",
+    study: "Étudier le Texte",
+    review: UNTRANSLATED,
+    vocabulary: UNTRANSLATED
+  },
+  input: {
+    label: "Écriture",
+    placeholder: "Tapez ou collez votre texte ici...",
+    accuracy: "Précision",
+    chars: "caractères",
+    checkGrammar: "Vérifier la grammaire",
+    stop: "Arrêter",
+    rewrite: "Réécrire",
+    close: "Fermer",
+    clear: "Effacer le texte",
+    refresh: "Refaire",
+    dictate: "Dicter le texte",
+    stopDictate: "Arrêter la dictée",
+    edit: "Modifier le Texte",
+    alignmentWarning: UNTRANSLATED,
+    documentMode: UNTRANSLATED,
+    sentenceMode: UNTRANSLATED,
+    documentProgress: UNTRANSLATED,
+    languageMismatch: UNTRANSLATED,
+    switchLanguage: UNTRANSLATED
+  },
+  corrections: UNTRANSLATED,
+  review: UNTRANSLATED,
+  vocabulary: UNTRANSLATED,
+  categories: UNTRANSLATED,
+  styles: {
+    Professional: "Professionnel",
+    Casual: "Décontracté",
+    Academic: "Académique",
+    Creative: "Créatif",
+    Formal: "Formel",
+    Informal: "Informel",
+    Analytical: "Analytique",
+    Narrative: "Narratif",
+    Persuasive: "Persuasif",
+    Descriptive: "Descriptif"
+  },
+  results: {
+    corrected: "Version Corrigée",
+    explanation: "Explication",
+    styleExplanation: "Explication du Style",
+    rewritten: "Réécrit",
+    copy: "Copier",
+    share: "Partager",
+    sharedCopied: "Copié dans le presse-papiers",
+    listen: "Écouter",
+    stopListen: "Arrêter l'écoute",
+    quickRewrites: UNTRANSLATED,
+    yourLanguage: UNTRANSLATED,
+    english: UNTRANSLATED,
+    generating: "Génération…",
+    cached: "Résultat enregistré le {date}",
+    refresh: "Actualiser"
+  },
+  profile: {
+    language: "Langue",
+    accuracyRate: "Taux de Précision",
+    accuracyDesc: "Pourcentage de précision",
+    totalChecks: "Total des Vérifications",
+    checksDesc: "Phrases analysées",
+    totalErrors: "Total des Erreurs",
+    errorsDesc: "Erreurs identifiées et corrigées",
+    correctionsApplied: UNTRANSLATED,
+    correctionsDesc: UNTRANSLATED,
+    decisionSummary: UNTRANSLATED,
+    openEntry: UNTRANSLATED,
+    errorBreakdown: UNTRANSLATED,
+    breakdownDesc: UNTRANSLATED,
+    noCategories: UNTRANSLATED,
+    trend: UNTRANSLATED,
+    recentHistory: "Historique Récent",
+    entries: "entrées",
+    noHistory: "Pas encore d'historique. Commencez à vérifier !",
+    filters: UNTRANSLATED,
+    cols: {
+      date: "Date",
+      text: "Aperçu",
+      result: "Résultat"
     },
-    profile: {
-      language: "语言",
-      accuracyRate: "准确率",
-      accuracyDesc: "准确率百分比",
-      totalChecks: "检查总数",
-      checksDesc: "分析的句子",
-      totalErrors: "错误总数",
-      errorsDesc: "已识别并修复的错误",
-      recentHistory: "最近历史",
-      entries: "条目",
-      noHistory: "暂无历史记录。开始检查您的语法！",
-      cols: {
-        date: "日期",
-        text: "预览",
-        result: "结果"
-      },
-      backup: "备份数据",
-      restore: "恢复数据",
-      activity: "活动",
-      yearly: "年度"
+    backup: "Sauvegarder",
+    restore: "Restaurer",
+    activity: "Activité",
+    yearly: "Annuel"
+  },
+  settings: {
+    title: "Configuration API",
+    desc: "Pour utiliser l'app, fournissez votre clé API Google Gemini. Elle est stockée localement.",
+    inputLabel: "Clé API Gemini",
+    placeholder: "Collez votre clé ici...",
+    getKey: "Obtenir une clé",
+    save: "Enregistrer",
+    remove: "Supprimer",
+    saved: "Clé enregistrée",
+    note: "Note: Sans clé, l'app utilisera la configuration par défaut.",
+    providerTitle: UNTRANSLATED,
+    providerDesc: UNTRANSLATED,
+    providers: UNTRANSLATED,
+    providerHints: UNTRANSLATED,
+    baseUrlLabel: UNTRANSLATED,
+    modelLabel: UNTRANSLATED,
+    providerKeyLabel: UNTRANSLATED,
+    saveProvider: UNTRANSLATED,
+    providerSaved: UNTRANSLATED,
+    targetLanguageTitle: UNTRANSLATED,
+    targetLanguageDesc: UNTRANSLATED,
+    nativeLanguageLabel: UNTRANSLATED,
+    nativeLanguageDesc: UNTRANSLATED,
+    showEnglish: UNTRANSLATED,
+    clearCache: "Effacer les réponses enregistrées",
+    cacheCleared: "Réponses effacées"
+  },
+  errors: {
+    generic: "Impossible d'analyser le texte. Vérifiez votre connexion.",
+    limit: "Limite d'utilisation de l'API dépassée. Réessayez plus tard.",
+    speech: "La reconnaissance vocale n'est pas supportée par ce navigateur.",
+    missingKey: "Clé API manquante. Ajoutez-la dans les paramètres.",
+    permissionDenied: "Accès refusé. Vérifiez votre clé API dans les Paramètres et assurez-vous qu'elle a accès aux modèles Gemini.",
+    malformedResponse: "L'IA a renvoyé une réponse incomplète qui n'a pas pu être affichée. Veuillez réessayer.",
+    offTask: "La réponse de l'IA ne correspondait pas à votre texte et a été ignorée. Réessayez.",
+    budgetExceeded: "Le budget IA du jour est atteint. Augmentez-le dans les Paramètres ou réessayez demain.",
+    overloaded: "Le service d'IA est surchargé. Réessayez dans un instant.",
+    offline: "Vous semblez hors ligne. Vérifiez votre connexion et réessayez.",
+    safety: "L'IA a refusé de traiter ce texte en raison de ses filtres de sécurité.",
+    dictionaryNotFound: "Aucune définition trouvée pour ce mot.",
+    retryAfter: "De nouveau disponible dans {seconds} s.",
+    retry: "Réessayer",
+    openSettings: "Ouvrir les paramètres",
+    dismiss: "Fermer"
+  },
+  usage: UNTRANSLATED,
+  offline: {
+    title: "Vous êtes hors ligne",
+    hint: "Les vérifications lancées maintenant sont mises en file et s'exécuteront au retour de la connexion.",
+    queued: "Vérifications en file : {count}. Elles s'exécuteront automatiquement au retour de la connexion.",
+    running: "Connexion rétablie. Vérifications en file en cours : {count}",
+    finished: "Vérifications en file terminées : {count}",
+    waiting: "Les vérifications en attente n'ont pas encore pu être faites : {count}. Nouvel essai sous peu.",
+    stalled: "Les vérifications en attente échouent encore : {count}. Le service d'IA est peut-être indisponible ou a dépassé sa limite.",
+    retryNow: "Réessayer",
+    discard: "Abandonner",
+    dropped: "{count} vérifications en attente n'ont pas pu aboutir et ont été supprimées.",
+    viewHistory: "Voir l'historique",
+    notificationTitle: "Vérifications en file terminées",
+    notificationBody: "{count} vérifications lancées hors ligne sont prêtes.",
+    dismiss: "Fermer"
+  },
+  update: {
+    available: "Une nouvelle version de GrammarGuard est disponible.",
+    reload: "Recharger",
+    later: "Plus tard"
+  }
+};
+
+const ja: LocaleTable = {
+  nav: {
+    tools: "ツール",
+    profile: "プロフィール",
+    editor: "ライティング",
+    study: "テキスト学習",
+    review: UNTRANSLATED,
+    vocabulary: UNTRANSLATED
+  },
+  input: {
+    label: "ライティング",
+    placeholder: "テキストを入力または貼り付け...",
+    accuracy: "正確性",
+    chars: "文字",
+    checkGrammar: "文法チェック",
+    stop: "停止",
+    rewrite: "書き換え",
+    close: "閉じる",
+    clear: "テキストを消去",
+    refresh: "やり直し",
+    dictate: "音声入力",
+    stopDictate: "入力を停止",
+    edit: "テキストを編集",
+    alignmentWarning: UNTRANSLATED,
+    documentMode: UNTRANSLATED,
+    sentenceMode: UNTRANSLATED,
+    documentProgress: UNTRANSLATED,
+    languageMismatch: UNTRANSLATED,
+    switchLanguage: UNTRANSLATED
+  },
+  corrections: UNTRANSLATED,
+  review: UNTRANSLATED,
+  vocabulary: UNTRANSLATED,
+  categories: UNTRANSLATED,
+  styles: {
+    Professional: "プロフェッショナル",
+    Casual: "カジュアル",
+    Academic: "アカデミック",
+    Creative: "クリエイティブ",
+    Formal: "フォーマル",
+    Informal: "インフォーマル",
+    Analytical: "分析的",
+    Narrative: "物語的",
+    Persuasive: "説得的",
+    Descriptive: "記述的"
+  },
+  results: {
+    corrected: "修正版",
+    explanation: "解説",
+    styleExplanation: "スタイルの解説",
+    rewritten: "書き換え結果",
+    copy: "コピー",
+    share: "共有",
+    sharedCopied: "クリップボードにコピーしました",
+    listen: "再生",
+    stopListen: "停止",
+    quickRewrites: UNTRANSLATED,
+    yourLanguage: UNTRANSLATED,
+    english: UNTRANSLATED,
+    generating: "生成中…",
+    cached: "{date} に保存された結果",
+    refresh: "再取得"
+  },
+  profile: {
+    language: "言語",
+    accuracyRate: "正確率",
+    accuracyDesc: "正確率",
+    totalChecks: "チェック回数",
+    checksDesc: "分析された文章",
+    totalErrors: "エラー総数",
+    errorsDesc: "特定・修正されたミス",
+    correctionsApplied: UNTRANSLATED,
+    correctionsDesc: UNTRANSLATED,
+    decisionSummary: UNTRANSLATED,
+    openEntry: UNTRANSLATED,
+    errorBreakdown: UNTRANSLATED,
+    breakdownDesc: UNTRANSLATED,
+    noCategories: UNTRANSLATED,
+    trend: UNTRANSLATED,
+    recentHistory: "最近の履歴",
+    entries: "件",
+    noHistory: "履歴はまだありません。文法チェックを始めましょう！",
+    filters: UNTRANSLATED,
+    cols: {
+      date: "日付",
+      text: "プレビュー",
+      result: "結果"
     },
-    settings: {
-        title: "API 设置",
-        desc: "要使用此应用，请提供您的 Google Gemini API 密钥。密钥仅保存在您的浏览器中。",
-        inputLabel: "Gemini API 密钥",
-        placeholder: "在此粘贴密钥...",
-        getKey: "获取免费密钥",
-        save: "保存密钥",
-        remove: "删除密钥",
-        saved: "保存成功",
-        note: "注意：如果未提供密钥，应用将尝试使用默认设置。"
+    backup: "データバックアップ",
+    restore: "データ復元",
+    activity: "アクティビティ",
+    yearly: "年間"
+  },
+  settings: {
+    title: "API設定",
+    desc: "アプリを使用するには、Google Gemini APIキーを入力してください。キーはブラウザに安全に保存されます。",
+    inputLabel: "Gemini APIキー",
+    placeholder: "キーをここに貼り付け...",
+    getKey: "キーを無料で取得",
+    save: "保存",
+    remove: "削除",
+    saved: "保存しました",
+    note: "注：キーがない場合、デフォルトの設定を使用します。",
+    providerTitle: UNTRANSLATED,
+    providerDesc: UNTRANSLATED,
+    providers: UNTRANSLATED,
+    providerHints: UNTRANSLATED,
+    baseUrlLabel: UNTRANSLATED,
+    modelLabel: UNTRANSLATED,
+    providerKeyLabel: UNTRANSLATED,
+    saveProvider: UNTRANSLATED,
+    providerSaved: UNTRANSLATED,
+    targetLanguageTitle: UNTRANSLATED,
+    targetLanguageDesc: UNTRANSLATED,
+    nativeLanguageLabel: UNTRANSLATED,
+    nativeLanguageDesc: UNTRANSLATED,
+    showEnglish: UNTRANSLATED,
+    clearCache: "保存した応答を消去",
+    cacheCleared: "消去しました"
+  },
+  errors: {
+    generic: "テキストを分析できませんでした。接続を確認してください。",
+    limit: "API使用制限を超えました。しばらくしてから再試行してください。",
+    speech: "このブラウザでは音声認識がサポートされていません。",
+    missingKey: "APIキーがありません。設定で追加してください。",
+    permissionDenied: "アクセスが拒否されました。設定でAPIキーを確認し、Geminiモデルへの権限があることを確認してください。",
+    malformedResponse: "AIの回答が不完全だったため表示できませんでした。もう一度お試しください。",
+    offTask: "AIの回答がテキストと一致しなかったため破棄しました。もう一度お試しください。",
+    budgetExceeded: "本日のAI予算に達しました。設定で引き上げるか、明日もう一度お試しください。",
+    overloaded: "AIサービスが混み合っています。しばらくしてから再試行してください。",
+    offline: "オフラインのようです。接続を確認して再試行してください。",
+    safety: "安全フィルターにより、AIはこのテキストを処理しませんでした。",
+    dictionaryNotFound: "この単語の定義が見つかりませんでした。",
+    retryAfter: "{seconds}秒後に再試行できます。",
+    retry: "再試行",
+    openSettings: "設定を開く",
+    dismiss: "閉じる"
+  },
+  usage: UNTRANSLATED,
+  offline: {
+    title: "オフラインです",
+    hint: "今開始したチェックはキューに追加され、オンラインに戻ると自動的に実行されます。",
+    queued: "キュー内のチェック: {count}。オンラインに戻ると自動的に実行されます。",
+    running: "オンラインに戻りました。キュー内のチェックを実行中: {count}",
+    finished: "キュー内のチェックが完了しました: {count}",
+    waiting: "待機中のチェックをまだ実行できません：{count}件。まもなく再試行します。",
+    stalled: "待機中のチェックが失敗し続けています：{count}件。AIサービスが停止中か、上限に達している可能性があります。",
+    retryNow: "今すぐ再試行",
+    discard: "破棄",
+    dropped: "待機中のチェック{count}件を完了できなかったため削除しました。",
+    viewHistory: "履歴を見る",
+    notificationTitle: "キュー内のチェックが完了しました",
+    notificationBody: "オフライン中に開始した{count}件のチェックの結果が出ました。",
+    dismiss: "閉じる"
+  },
+  update: {
+    available: "GrammarGuard の新しいバージョンがあります。",
+    reload: "再読み込み",
+    later: "後で"
+  }
+};
+
+const zh: LocaleTable = {
+  nav: {
+    tools: "工具",
+    profile: "个人资料",
+    editor: "写作",
+    study: "学习文本",
+    review: UNTRANSLATED,
+    vocabulary: UNTRANSLATED
+  },
+  input: {
+    label: "写作",
+    placeholder: "在此输入或粘贴文本...",
+    accuracy: "准确率",
+    chars: "字符",
+    checkGrammar: "检查语法",
+    stop: "停止",
+    rewrite: "重写",
+    close: "关闭",
+    clear: "清除文本",
+    refresh: "重试",
+    dictate: "语音输入",
+    stopDictate: "停止听写",
+    edit: "编辑文本",
+    alignmentWarning: UNTRANSLATED,
+    documentMode: UNTRANSLATED,
+    sentenceMode: UNTRANSLATED,
+    documentProgress: UNTRANSLATED,
+    languageMismatch: UNTRANSLATED,
+    switchLanguage: UNTRANSLATED
+  },
+  corrections: UNTRANSLATED,
+  review: UNTRANSLATED,
+  vocabulary: UNTRANSLATED,
+  categories: UNTRANSLATED,
+  styles: {
+    Professional: "专业",
+    Casual: "休闲",
+    Academic: "学术",
+    Creative: "创意",
+    Formal: "正式",
+    Informal: "非正式",
+    Analytical: "分析",
+    Narrative: "叙述",
+    Persuasive: "说服",
+    Descriptive: "描述"
+  },
+  results: {
+    corrected: "更正版本",
+    explanation: "解释",
+    styleExplanation: "风格解释",
+    rewritten: "重写结果",
+    copy: "复制",
+    share: "分享",
+    sharedCopied: "已复制到剪贴板",
+    listen: "朗读",
+    stopListen: "停止朗读",
+    quickRewrites: UNTRANSLATED,
+    yourLanguage: UNTRANSLATED,
+    english: UNTRANSLATED,
+    generating: "生成中…",
+    cached: "{date} 保存的结果",
+    refresh: "刷新"
+  },
+  profile: {
+    language: "语言",
+    accuracyRate: "准确率",
+    accuracyDesc: "准确率百分比",
+    totalChecks: "检查总数",
+    checksDesc: "分析的句子",
+    totalErrors: "错误总数",
+    errorsDesc: "已识别并修复的错误",
+    correctionsApplied: UNTRANSLATED,
+    correctionsDesc: UNTRANSLATED,
+    decisionSummary: UNTRANSLATED,
+    openEntry: UNTRANSLATED,
+    errorBreakdown: UNTRANSLATED,
+    breakdownDesc: UNTRANSLATED,
+    noCategories: UNTRANSLATED,
+    trend: UNTRANSLATED,
+    recentHistory: "最近历史",
+    entries: "条目",
+    noHistory: "暂无历史记录。开始检查您的语法！",
+    filters: UNTRANSLATED,
+    cols: {
+      date: "日期",
+      text: "预览",
+      result: "结果"
     },
-    errors: {
-      generic: "无法分析文本。请检查您的连接或 API 密钥。",
-      limit: "超出 API 使用限制。请稍后再试。",
-      speech: "此浏览器不支持语音识别。",
-      missingKey: "缺少 API 密钥。请在设置中添加。"
-    }
+    backup: "备份数据",
+    restore: "恢复数据",
+    activity: "活动",
+    yearly: "年度"
+  },
+  settings: {
+    title: "API 设置",
+    desc: "要使用此应用，请提供您的 Google Gemini API 密钥。密钥仅保存在您的浏览器中。",
+    inputLabel: "Gemini API 密钥",
+    placeholder: "在此粘贴密钥...",
+    getKey: "获取免费密钥",
+    save: "保存密钥",
+    remove: "删除密钥",
+    saved: "保存成功",
+    note: "注意：如果未提供密钥，应用将尝试使用默认设置。",
+    providerTitle: UNTRANSLATED,
+    providerDesc: UNTRANSLATED,
+    providers: UNTRANSLATED,
+    providerHints: UNTRANSLATED,
+    baseUrlLabel: UNTRANSLATED,
+    modelLabel: UNTRANSLATED,
+    providerKeyLabel: UNTRANSLATED,
+    saveProvider: UNTRANSLATED,
+    providerSaved: UNTRANSLATED,
+    targetLanguageTitle: UNTRANSLATED,
+    targetLanguageDesc: UNTRANSLATED,
+    nativeLanguageLabel: UNTRANSLATED,
+    nativeLanguageDesc: UNTRANSLATED,
+    showEnglish: UNTRANSLATED,
+    clearCache: "清除已保存的回复",
+    cacheCleared: "已清除"
+  },
+  errors: {
+    generic: "无法分析文本。请检查您的连接或 API 密钥。",
+    limit: "超出 API 使用限制。请稍后再试。",
+    speech: "此浏览器不支持语音识别。",
+    missingKey: "缺少 API 密钥。请在设置中添加。",
+    permissionDenied: "访问被拒绝。请在设置中检查您的 API 密钥，并确认它有权使用 Gemini 模型。",
+    malformedResponse: "AI 返回的回答不完整，无法显示。请重试。",
+    offTask: "AI 的回答与您的文本不符，已被丢弃。请重试。",
+    budgetExceeded: "今天的 AI 预算已用完。请在设置中提高预算，或明天再试。",
+    overloaded: "AI 服务繁忙，请稍后重试。",
+    offline: "您似乎处于离线状态。请检查网络连接后重试。",
+    safety: "由于安全过滤，AI 未处理此文本。",
+    dictionaryNotFound: "找不到这个词的释义。",
+    retryAfter: "{seconds} 秒后可重试。",
+    retry: "重试",
+    openSettings: "打开设置",
+    dismiss: "关闭"
+  },
+  usage: UNTRANSLATED,
+  offline: {
+    title: "您已离线",
+    hint: "现在开始的检查会加入队列，恢复联网后自动运行。",
+    queued: "排队中的检查：{count}。恢复联网后将自动运行。",
+    running: "已恢复联网。正在运行排队的检查：{count}",
+    finished: "排队的检查已完成：{count}",
+    waiting: "排队的检查暂时无法运行：{count} 项。稍后将自动重试。",
+    stalled: "排队的检查一直失败：{count} 项。AI 服务可能不可用或已超出限额。",
+    retryNow: "立即重试",
+    discard: "放弃",
+    dropped: "{count} 项排队的检查无法完成，已被移除。",
+    viewHistory: "查看历史",
+    notificationTitle: "排队的检查已完成",
+    notificationBody: "离线时开始的 {count} 项检查已完成。",
+    dismiss: "关闭"
+  },
+  update: {
+    available: "GrammarGuard 有新版本可用。",
+    reload: "重新加载",
+    later: "稍后"
   }
 };
 
+export const translations: { en: Translations } & Record<Exclude<AppLanguage, 'en'>, LocaleTable> = { en, es, pt, fr, ja, zh };
+
 export const getLanguageName = (lang: AppLanguage): string => {
   switch (lang) {
     case 'en': return 'English';
@@ -509,5 +1112,3 @@ export const getLanguageName = (lang: AppLanguage): string => {
     default: return 'English';
   }
 };
-
-export const t = translations.en;
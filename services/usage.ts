@@ -0,0 +1,123 @@
+import { UsageRecord } from "../types";
+import { USAGE_STORE, withStore, requestToPromise, collectCursor } from "./db";
+import { getDailyBudget } from "./storageService";
+
+// What the AI features cost: every operation is recorded with its tokens, latency and the
+// number of calls its retries took, so the settings page can show daily and monthly totals
+// and an optional daily budget can stop further calls.
+
+// USD per million tokens, by model. List prices ignoring free tiers, so only an estimate;
+// models not listed here (e.g. self-hosted ones) are counted as free.
+const PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 }
+};
+
+// Monthly totals never look further back than this
+const RETENTION_MS = 62 * 24 * 60 * 60 * 1000;
+
+export interface UsageTotals {
+  requests: number;
+  calls: number; // Includes retries
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated, in USD
+  unpriced: number; // Requests to models without a known price
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  dailyBudget: number | null;
+}
+
+export const isPricedModel = (model: string) => model in PRICING;
+
+export const estimateCost = (record: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens'>): number => {
+  const price = PRICING[record.model];
+  if (!price) return 0;
+  return (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  calls: 0,
+  failures: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cost: 0,
+  unpriced: 0
+});
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord) => {
+  totals.requests++;
+  totals.calls += record.calls;
+  if (!record.success) totals.failures++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cost += estimateCost(record);
+  if (!isPricedModel(record.model)) totals.unpriced++;
+};
+
+const startOfDay = (now: number) => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const startOfMonth = (now: number) => {
+  const date = new Date(startOfDay(now));
+  date.setDate(1);
+  return date.getTime();
+};
+
+const getRecordsSince = (since: number): Promise<UsageRecord[]> =>
+  withStore(USAGE_STORE, 'readonly', store =>
+    collectCursor<UsageRecord>(store.index('timestamp').openCursor(IDBKeyRange.lowerBound(since)))
+  );
+
+export const recordUsage = async (record: Omit<UsageRecord, 'id'>): Promise<void> => {
+  try {
+    await withStore(USAGE_STORE, 'readwrite', async store => {
+      store.put({ ...record, id: crypto.randomUUID() });
+
+      const expired = await requestToPromise(
+        store.index('timestamp').getAllKeys(IDBKeyRange.upperBound(record.timestamp - RETENTION_MS))
+      );
+      expired.forEach(key => store.delete(key));
+    });
+  } catch (error) {
+    console.error("Failed to record API usage:", error);
+  }
+};
+
+export const getUsageSummary = async (now = Date.now()): Promise<UsageSummary> => {
+  const summary: UsageSummary = { today: emptyTotals(), month: emptyTotals(), dailyBudget: getDailyBudget() };
+  try {
+    const dayStart = startOfDay(now);
+    const records = await getRecordsSince(startOfMonth(now));
+    records.forEach(record => {
+      addToTotals(summary.month, record);
+      if (record.timestamp >= dayStart) addToTotals(summary.today, record);
+    });
+  } catch (error) {
+    console.error("Failed to load API usage:", error);
+  }
+  return summary;
+};
+
+// True once today's estimated spend has reached the user's daily budget
+export const isDailyBudgetReached = async (now = Date.now()): Promise<boolean> => {
+  const budget = getDailyBudget();
+  if (budget === null) return false;
+
+  try {
+    const records = await getRecordsSince(startOfDay(now));
+    return records.reduce((sum, record) => sum + estimateCost(record), 0) >= budget;
+  } catch (error) {
+    console.error("Failed to check daily budget:", error);
+    return false;
+  }
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { APP_VERSION, computeBuildVersion } from './version';
+
+describe('computeBuildVersion', () => {
+  const html = '<script type="module" src="/assets/index-a1b2c3.js"></script>';
+
+  it('is the release plus a hash of the served HTML', async () => {
+    expect(await computeBuildVersion(html)).toMatch(new RegExp(`^${APP_VERSION.replace(/\./g, '\\.')}-[0-9a-f]{12}$`));
+    expect(await computeBuildVersion(html)).toBe(await computeBuildVersion(html));
+  });
+
+  it('changes with every build, even without a version bump', async () => {
+    const rebuilt = html.replace('a1b2c3', 'd4e5f6');
+    expect(await computeBuildVersion(rebuilt)).not.toBe(await computeBuildVersion(html));
+  });
+});
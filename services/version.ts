@@ -0,0 +1,15 @@
+import packageJson from '../package.json';
+
+// The release, read from package.json at build time. Backup files and the storage schema's
+// record of which release last migrated it use this.
+export const APP_VERSION: string = packageJson.version;
+
+// Identifies the deployed build: the release plus a hash of the index.html that was served.
+// The built HTML names every bundle after its content, so any deploy that changes code gets
+// a new value even when package.json wasn't bumped. The service worker is registered under
+// it, which gives each build its own worker and caches.
+export const computeBuildVersion = async (html: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(html));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 6), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${APP_VERSION}-${hash}`;
+};
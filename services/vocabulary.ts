@@ -0,0 +1,33 @@
+import { VocabularyEntry } from "../types";
+
+// Search and tag helpers for the vocabulary notebook.
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+
+export const collectTags = (vocabulary: VocabularyEntry[]): string[] =>
+  Array.from(new Set(vocabulary.flatMap(entry => entry.tags))).sort();
+
+// Matches the query against the word, its definitions, tags and source sentence
+export const filterVocabulary = (vocabulary: VocabularyEntry[], query: string, tag: string | null): VocabularyEntry[] => {
+  const needle = query.trim().toLowerCase();
+
+  return vocabulary.filter(entry => {
+    if (tag && !entry.tags.includes(tag)) return false;
+    if (!needle) return true;
+
+    const definitions = entry.entries.flatMap(e => e.meanings.flatMap(m => m.definitions.map(d => d.definition)));
+    return [entry.word, entry.sourceSentence || '', ...entry.tags, ...definitions]
+      .some(text => text.toLowerCase().includes(needle));
+  });
+};
+
+// Finds the sentence of the learner's text that contains the looked-up word, if any
+export const findSourceSentence = (text: string, term: string): string | undefined => {
+  const word = term.trim();
+  if (!text.trim() || !word) return undefined;
+
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[^\\p{L}])${escaped}([^\\p{L}]|$)`, 'iu');
+  const sentences = text.match(/[^.!?…\n]+[.!?…]*/g) || [];
+  return sentences.map(s => s.trim()).find(sentence => pattern.test(sentence));
+};
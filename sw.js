@@ -1,28 +1,193 @@
-const CACHE_NAME = 'grammarguard-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  '/manifest.json',
-  '/icon.svg'
-];
+// Offline support. The app shell and every asset the built index.html references are
+// precached on install; other GET requests (CDN scripts, fonts, import-map modules) are
+// cached the first time they load. Dictionary lookups are answered from the network when
+// possible and from their own cache when not. AI requests are never cached here: they are
+// POSTs, and the app keeps its own response cache and offline queue for them.
 
+// The app registers this worker as /sw.js?v=<build version>: the package.json release plus
+// a hash of the served index.html (see services/version.ts). Every deploy is therefore a new
+// worker with its own caches. Dictionary entries don't depend on the app and are kept
+// across builds.
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const CACHE_PREFIX = 'grammarguard-';
+const PRECACHE = `${CACHE_PREFIX}precache-${VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-${VERSION}`;
+const DICTIONARY_CACHE = `${CACHE_PREFIX}dictionary`;
+const CURRENT_CACHES = [PRECACHE, RUNTIME_CACHE, DICTIONARY_CACHE];
+
+const APP_SHELL = ['/', '/index.html', '/manifest.json', '/icon.svg'];
+
+const DICTIONARY_ORIGIN = 'https://api.dictionaryapi.dev';
+const DICTIONARY_MAX_ENTRIES = 200;
+
+// Hosts the page loads code, styles and fonts from
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+// The build names bundles after their content, so which files to precache is read from the
+// HTML that loads them: script and stylesheet URLs, plus the full URLs in the import map
+// (entries ending in "/" are prefixes and get cached as their modules load).
+//
+// Each URL is fetched in the mode the page will request it in. Classic scripts and
+// stylesheets load without CORS, but modules (module scripts, modulepreload links and
+// everything in the import map) always use CORS and can't be answered with an opaque copy.
+const discoverAssets = (html) => {
+  const modes = new Map();
+  for (const match of html.matchAll(/<(?:script|link)\b[^>]*?\b(?:src|href)="([^"]+)"[^>]*>/g)) {
+    const isModule = /\btype="module"|\brel="modulepreload"/.test(match[0]);
+    modes.set(match[1], isModule ? 'cors' : 'no-cors');
+  }
+
+  const importMap = html.match(/<script type="importmap">([\s\S]*?)<\/script>/);
+  if (importMap) {
+    try {
+      Object.values(JSON.parse(importMap[1]).imports || {})
+        .filter((url) => !url.endsWith('/'))
+        .forEach((url) => modes.set(url, 'cors'));
+    } catch (error) {
+      console.warn('SW: unreadable import map', error);
+    }
+  }
+
+  return [...modes].map(([url, mode]) => ({ url: new URL(url, self.location.origin), mode }));
+};
+
+const fetchForCache = ({ url, mode }) =>
+  fetch(url.origin === self.location.origin ? url.href : new Request(url.href, { mode }));
+
+const precache = async () => {
+  const cache = await caches.open(PRECACHE);
+  await cache.addAll(APP_SHELL);
+
+  const html = await (await cache.match('/index.html')).text();
+  // One asset failing to download shouldn't stop the rest from being available offline
+  await Promise.all(discoverAssets(html).map(async (asset) => {
+    const { url } = asset;
+    try {
+      const response = await fetchForCache(asset);
+      if (response.ok || response.type === 'opaque') await cache.put(url.href, response);
+    } catch (error) {
+      console.warn('SW: could not precache', url.href, error);
+    }
+  }));
+};
+
+// A new version waits until the page asks for it (the user accepted the reload prompt), so
+// code is never swapped under an open session
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
-  event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => cache.addAll(urlsToCache))
-  );
+  event.waitUntil(precache());
 });
 
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Drops the caches of every earlier release, including the unversioned 'grammarguard-v1'
+const deleteStaleCaches = async () => {
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(CACHE_PREFIX) && !CURRENT_CACHES.includes(name))
+      .map((name) => caches.delete(name))
+  );
+};
+
 self.addEventListener('activate', (event) => {
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(deleteStaleCaches().then(() => self.clients.claim()));
 });
 
+// An opaque copy can only answer a no-cors request; the browser rejects it for a CORS one
+// (a module, say), which is worse than going to the network
+const isUsableFor = (request, response) =>
+  !!response && (response.type !== 'opaque' || typeof request === 'string' || request.mode === 'no-cors');
+
+// Only this release's copies: another version's worker may be installed next to this one
+const matchCurrent = async (request) => {
+  for (const name of [PRECACHE, RUNTIME_CACHE]) {
+    const response = await (await caches.open(name)).match(request);
+    if (isUsableFor(request, response)) return response;
+  }
+  return undefined;
+};
+
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  // Keys come back in insertion order, so the oldest lookups go first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Fresh definitions when online, the last ones seen when not
+const networkFirst = async (request, cacheName, maxEntries) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+      await trimCache(cacheName, maxEntries);
+    }
+    return response;
+  } catch (error) {
+    const cached = await (await caches.open(cacheName)).match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Serves from the cache straight away and refreshes the copy in the background
+const staleWhileRevalidate = async (event) => {
+  const { request } = event;
+  const cached = await matchCurrent(request);
+
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(RUNTIME_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+// Pages always try the network so a deploy shows up on the next load; offline, any route
+// gets the app shell, which works out the view on its own
+const navigate = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await matchCurrent('/index.html');
+    if (shell) return shell;
+    throw error;
+  }
+};
+
 self.addEventListener('fetch', (event) => {
-  // Simple fetch handler to meet PWA requirements
-  event.respondWith(
-    fetch(event.request).catch(() => {
-      return caches.match(event.request);
+  const { request } = event;
+  // Requests that opt out of caching, like the app asking which build is deployed
+  if (request.method !== 'GET' || request.cache === 'no-store') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+  } else if (url.origin === DICTIONARY_ORIGIN) {
+    event.respondWith(networkFirst(request, DICTIONARY_CACHE, DICTIONARY_MAX_ENTRIES));
+  } else if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Tapping the "queued checks finished" notification brings the app back up
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('/');
     })
   );
-});
\ No newline at end of file
+});
@@ -1,11 +1,43 @@
 
 
+export type ErrorCategory =
+  | 'articles'
+  | 'verb-tense'
+  | 'subject-verb-agreement'
+  | 'prepositions'
+  | 'pronouns'
+  | 'plurals'
+  | 'spelling'
+  | 'capitalization'
+  | 'punctuation'
+  | 'word-order'
+  | 'word-choice'
+  | 'style'
+  | 'other';
+
 export interface Segment {
   text: string;
   isError: boolean;
   severity?: 'critical' | 'suggestion';
+  category?: ErrorCategory;
   correction?: string;
   reason?: string;
+  reasonEnglish?: string; // Same reason in English, when reasons are in the learner's language
+  start?: number; // Character offset into the original input (inclusive)
+  end?: number; // Character offset into the original input (exclusive)
+}
+
+export interface CorrectionDecision {
+  status: 'accepted' | 'rejected' | 'edited';
+  text?: string; // Hand-edited replacement when status is 'edited'
+}
+
+// Decisions keyed by segment index in GrammarAnalysis.segments
+export type CorrectionDecisions = Record<number, CorrectionDecision>;
+
+export interface SegmentAlignment {
+  status: 'exact' | 'reanchored' | 'mismatch';
+  unresolved: string[]; // Flagged segment texts that could not be located in the input
 }
 
 export interface Explanation {
@@ -23,6 +55,9 @@ export interface GrammarAnalysis {
   correctedSentence: string;
   correctedWords?: WordData[];
   explanation: Explanation;
+  explanationEnglish?: Explanation; // Side-by-side English copy, only when requested
+  alignment?: SegmentAlignment;
+  detectedLanguage?: string; // ISO 639-1 code of the language the input is written in
 }
 
 export interface RewriteAnalysis {
@@ -31,6 +66,7 @@ export interface RewriteAnalysis {
   rewrittenWords?: WordData[];
   style: RewriteStyle;
   explanation: Explanation;
+  explanationEnglish?: Explanation;
 }
 
 export type RewriteStyle = 
@@ -61,12 +97,84 @@ export enum LoadingState {
 
 export type Theme = 'light' | 'dark';
 
-export type ViewMode = 'checker' | 'menu' | 'profile' | 'settings';
+export type ViewMode = 'checker' | 'menu' | 'profile' | 'settings' | 'review' | 'vocabulary';
 
 export type AppColor = 'blue' | 'orange' | 'green' | 'indigo' | 'rose' | 'red';
 
 export type AppLanguage = 'en' | 'es' | 'pt' | 'fr' | 'ja' | 'zh';
 
+// Language the learner is writing in, as opposed to the language of the interface
+export type TargetLanguage = 'en' | 'es' | 'fr' | 'pt' | 'ja' | 'zh';
+
+export interface LanguageSettings {
+  target: TargetLanguage; // Language the text is written and corrected in
+  explanation: AppLanguage; // Learner's native language, used for explanations and reasons
+  showEnglish: boolean; // Also return explanations in English when `explanation` isn't English
+}
+
+// AI Provider Types
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey?: string;
+}
+
+// What has streamed in so far; segments and word data only arrive with the complete response
+export interface StreamingPreview {
+  text: string; // Corrected or rewritten text
+  explanation: Explanation;
+}
+
+export type PreviewHandler = (preview: StreamingPreview) => void;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Per-call hooks the service layer hands to a provider
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+  onPreview?: PreviewHandler;
+  onUsage?: (usage: TokenUsage) => void; // Token counts as reported by the API, when it does
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+  checkGrammar: (text: string, languages: LanguageSettings, options?: ProviderCallOptions) => Promise<GrammarAnalysis>;
+  rewriteText: (text: string, style: RewriteStyle, languages: LanguageSettings, options?: ProviderCallOptions) => Promise<RewriteAnalysis>;
+  generateExampleSentence: (word: string, definition: string, language: TargetLanguage, options?: ProviderCallOptions) => Promise<string>;
+}
+
+export type UsageOperation = 'grammar' | 'rewrite' | 'example';
+
+// One user-facing operation, including every retry it took
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  operation: UsageOperation;
+  provider: AIProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  calls: number; // API calls made, so 1 + retries
+  success: boolean;
+}
+
+// A grammar check submitted while offline, with the settings it was submitted under
+export interface PendingCheck {
+  id: string;
+  text: string;
+  languages: LanguageSettings;
+  isDocument: boolean;
+  createdAt: number;
+}
+
 export interface HistoryEntry {
   id: string;
   timestamp: number;
@@ -77,6 +185,22 @@ export interface HistoryEntry {
   isPerfect: boolean;
   type?: 'grammar' | 'rewrite' | 'dictionary';
   rewriteStyle?: string;
+  acceptedCount?: number; // Corrections the learner accepted or edited by hand
+  rejectedCount?: number;
+  finalText?: string; // Text rebuilt from the learner's decisions
+  decisions?: CorrectionDecisions;
+  originalText?: string; // What the learner typed, before any correction
+  analysis?: GrammarAnalysis; // Full results, so the entry can be reopened without an API call
+  rewriteAnalysis?: RewriteAnalysis;
+  categoryCounts?: Partial<Record<ErrorCategory, number>>; // Flagged segments per error category
+}
+
+export interface CategoryStat {
+  category: ErrorCategory;
+  count: number;
+  recentRate: number; // Errors per check over the most recent checks
+  previousRate: number; // Errors per check over the checks before those
+  trend: 'improving' | 'worsening' | 'steady';
 }
 
 export interface UserStats {
@@ -84,8 +208,35 @@ export interface UserStats {
   totalErrors: number;
   accuracyRate: number; // Percentage of perfect submissions
   perfectRuns: number;
+  acceptedCorrections: number;
+  rejectedCorrections: number;
+  categoryStats: CategoryStat[]; // Sorted by count, most frequent first
 }
 
+// Review Deck Types
+export interface ReviewCard {
+  id: string;
+  original: string; // The learner's wrong segment
+  correction: string;
+  reason?: string;
+  category?: ErrorCategory;
+  contextBefore: string; // Rest of the sentence the mistake appeared in
+  contextAfter: string;
+  createdAt: number;
+  // SM-2 scheduling state
+  dueAt: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  easeFactor: number;
+  lapses: number;
+  lastReviewedAt?: number;
+}
+
+export type ReviewQuizMode = 'fix' | 'choose';
+
+// SM-2 answer quality: 0 (blackout) to 5 (perfect recall)
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
 // Dictionary Types
 export interface DictionaryDefinition {
   definition: string;
@@ -114,6 +265,19 @@ export interface DictionaryEntry {
   sourceUrls: string[];
 }
 
+// Vocabulary Notebook Types
+export interface VocabularyEntry {
+  id: string;
+  word: string;
+  language: TargetLanguage; // Dictionary the word was looked up in; the same spelling can be saved once per language
+  entries: DictionaryEntry[]; // Full dictionary response, so saved words work offline
+  generatedExamples: Record<string, string>; // Keyed by "entry-meaning-definition" index
+  sourceSentence?: string; // Sentence from the learner's text the word was looked up from
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Global augmentations for Vite-injected variables and types
 declare global {
   interface ImportMeta {
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Service-layer tests only; they run in Node without the browser app around them
+export default defineConfig({
+  test: {
+    include: ['services/**/*.test.ts']
+  }
+});